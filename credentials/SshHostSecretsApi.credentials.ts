@@ -0,0 +1,26 @@
+import type { ICredentialType, INodeProperties } from 'n8n-workflow';
+
+export class SshHostSecretsApi implements ICredentialType {
+        name = 'sshHostSecretsApi';
+
+        displayName = 'SSH Host Secrets API';
+
+        documentationUrl = 'https://docs.n8n.io/integrations/builtin/credentials/ssh/';
+
+        properties: INodeProperties[] = [
+                {
+                        displayName: 'Secrets by Host Alias',
+                        name: 'secrets',
+                        type: 'string',
+                        typeOptions: {
+                                rows: 6,
+                                password: true,
+                        },
+                        default: '',
+                        placeholder:
+                                '{"web-1": {"password": "..."}, "db-1": {"privateKey": "...", "passphrase": "..."}}',
+                        description:
+                                'JSON object with the password, or private key and passphrase, of the hosts of the host inventory by their alias. Hosts without an entry use the secret of the SSH credential.',
+                },
+        ];
+}
@@ -47,5 +47,75 @@ export class SshPrivateKeyApi implements ICredentialType {
                         description: 'Passphase used to create the key, if no passphase was used leave empty',
                         typeOptions: { password: true },
                 },
+                {
+                        displayName: 'Host Key Verification',
+                        name: 'hostKeyPolicy',
+                        type: 'options',
+                        options: [
+                                {
+                                        name: 'Accept Any Host Key',
+                                        value: 'any',
+                                        description: 'Trust whatever key the server presents',
+                                },
+                                {
+                                        name: 'Pinned Fingerprints',
+                                        value: 'fingerprint',
+                                        description: 'Only accept host keys with one of the given SHA256 fingerprints',
+                                },
+                                {
+                                        name: 'Known Hosts',
+                                        value: 'knownHosts',
+                                        description: 'Only accept host keys listed in the given known_hosts content',
+                                },
+                        ],
+                        default: 'any',
+                },
+                {
+                        displayName: 'Host Key Fingerprints',
+                        name: 'hostKeyFingerprints',
+                        // Fingerprints are public and need to stay readable to be compared
+                        // eslint-disable-next-line n8n-nodes-base/cred-class-field-type-options-password-missing
+                        type: 'string',
+                        default: '',
+                        placeholder: 'SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8',
+                        description:
+                                'One or more SHA256 fingerprints separated by commas or new lines. The credential test shows the fingerprint of the server.',
+                        displayOptions: {
+                                show: {
+                                        hostKeyPolicy: ['fingerprint'],
+                                },
+                        },
+                },
+                {
+                        displayName: 'Known Hosts',
+                        name: 'knownHosts',
+                        type: 'string',
+                        typeOptions: {
+                                rows: 4,
+                        },
+                        default: '',
+                        placeholder: 'example.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAA...',
+                        description: 'Content of a known_hosts file, e.g. the output of ssh-keyscan',
+                        displayOptions: {
+                                show: {
+                                        hostKeyPolicy: ['knownHosts'],
+                                },
+                        },
+                },
+                {
+                        displayName: 'Jump Hosts',
+                        name: 'jumpHosts',
+                        // The list holds the passwords and keys of the hops, so it is masked
+                        type: 'string',
+                        typeOptions: {
+                                rows: 4,
+                                password: true,
+                        },
+                        default: '[]',
+                        placeholder:
+                                '[{"host": "bastion.example.com", "port": 22, "username": "jump", "privateKey": "..."}]',
+                        description:
+                                'Hosts to tunnel the connection through, in order, like OpenSSH ProxyJump. Each entry takes host, port, username, password or privateKey and passphrase, and optionally hostKeyFingerprints.',
+                },
         ];
 } 
\ No newline at end of file
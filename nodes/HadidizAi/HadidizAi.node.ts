@@ -1,18 +1,65 @@
-import { writeFile } from 'fs/promises';
 import type {
+	ICredentialTestFunctions,
+	ICredentialsDecrypted,
 	IExecuteFunctions,
 	IDataObject,
+	INodeCredentialTestResult,
 	INodeExecutionData,
 	INodeType,
 	INodeTypeDescription,
 } from 'n8n-workflow';
 import { BINARY_ENCODING, NodeOperationError } from 'n8n-workflow';
-import type { Config } from 'node-ssh';
 import { NodeSSH } from 'node-ssh';
+import type { SFTPWrapper } from 'ssh2';
 import type { Readable } from 'stream';
-import { file as tmpFile } from 'tmp-promise';
 
-import { formatPrivateKey } from '../../utils/utilities';
+import {
+	createApprovalId,
+	DEFAULT_RISKY_COMMANDS,
+	hashContent,
+	isApproved,
+} from '../../utils/approval';
+import { createUnifiedDiff } from '../../utils/diff';
+import { joinRemotePath, listDirectory, lstat, remoteBasename } from '../../utils/sftp';
+import {
+	closeSession,
+	closeSessions,
+	getSession,
+	openSession,
+	runInSession,
+} from '../../utils/session';
+import { readRemoteText, searchRemoteFiles } from '../../utils/text';
+import type { ChecksumAlgorithm, TarEntry, TransferOptions } from '../../utils/transfer';
+import {
+	collectRemoteFiles,
+	createTarGz,
+	downloadRemoteFile,
+	getBinaryRelativePath,
+	readRemoteFile,
+	reportTransferProgress,
+	uploadBinaryTree,
+	uploadRemoteFile,
+} from '../../utils/transfer';
+import { connect, getConnectionKey } from '../../utils/connection';
+import type { CommandResult } from '../../utils/exec';
+import { getErrorCode, toNodeOperationError } from '../../utils/errors';
+import { execCommand } from '../../utils/exec';
+import type { PoolOptions, PooledConnection } from '../../utils/pool';
+import { openConnection } from '../../utils/pool';
+import type { OutputShapingOptions } from '../../utils/output';
+import { shapeOutput } from '../../utils/output';
+import type { CommandPolicy, PolicyViolation } from '../../utils/policy';
+import {
+	checkCommand,
+	checkEnvironment,
+	checkPath,
+	findMatchingPattern,
+	splitLines,
+} from '../../utils/policy';
+import { formatCommand, formatEnvironment, shellQuote, splitList } from '../../utils/utilities';
+
+// Larger files are not compared when an upload that overwrites them is previewed
+const MAX_DIFF_SIZE = 1024 * 1024;
 
 // Extend the INodeTypeDescription interface to include usableAsTool
 interface IExtendedNodeTypeDescription extends INodeTypeDescription {
@@ -48,6 +95,496 @@ async function resolveHomeDir(
 	return path;
 }
 
+/**
+ * Read the hosts of the inventory
+ */
+function getInventory(this: IExecuteFunctions, itemIndex: number): IDataObject[] {
+	return this.getNodeParameter('hostInventory.hosts', itemIndex, []) as IDataObject[];
+}
+
+/**
+ * Look up the secrets of an inventory host in the optional host secrets
+ * credential, which keeps them out of the workflow and the execution data
+ */
+async function getHostSecrets(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	alias: string,
+): Promise<IDataObject | undefined> {
+	let credentials: IDataObject;
+	try {
+		credentials = await this.getCredentials('sshHostSecretsApi', itemIndex);
+	} catch {
+		// No host secrets credential is selected
+		return undefined;
+	}
+
+	let secrets: IDataObject;
+	try {
+		secrets = JSON.parse(((credentials.secrets as string) ?? '').trim() || '{}') as IDataObject;
+	} catch (error) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`The SSH Host Secrets API credential is not valid JSON: ${error.message}`,
+			{ itemIndex },
+		);
+	}
+
+	return secrets[alias] as IDataObject | undefined;
+}
+
+async function getConnectionData(this: IExecuteFunctions, itemIndex: number): Promise<IDataObject> {
+	const connectionType = this.getNodeParameter('connectionType', itemIndex) as string;
+	const authentication = this.getNodeParameter('authentication', itemIndex) as string;
+
+	if (connectionType === 'credentials') {
+		return await this.getCredentials(
+			authentication === 'password' ? 'sshPasswordApi' : 'sshPrivateKeyApi',
+		);
+	}
+
+	if (connectionType === 'inventory') {
+		const alias = this.getNodeParameter('hostAlias', itemIndex) as string;
+		const hosts = getInventory.call(this, itemIndex);
+		const entry = hosts.find((host) => host.alias === alias);
+
+		if (!entry) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Unknown host alias "${alias}". Available hosts: ${hosts.map((host) => host.alias).join(', ') || 'none'}`,
+				{ itemIndex },
+			);
+		}
+
+		const credentials = await this.getCredentials(
+			authentication === 'password' ? 'sshPasswordApi' : 'sshPrivateKeyApi',
+		);
+
+		const data: IDataObject = {
+			...credentials,
+			host: entry.host || credentials.host,
+			port: entry.host ? entry.port ?? 22 : credentials.port,
+			username: entry.username || credentials.username,
+		};
+
+		const secrets = await getHostSecrets.call(this, itemIndex, alias);
+		if (authentication === 'password' && secrets?.password) {
+			data.password = secrets.password;
+		} else if (authentication === 'privateKey' && secrets?.privateKey) {
+			data.privateKey = secrets.privateKey;
+			data.passphrase = secrets.passphrase ?? '';
+		}
+
+		// Fingerprints pinned on the credential belong to its own host, so a host
+		// of the inventory with its own address needs its own ones
+		const fingerprints = ((entry.hostKeyFingerprints as string) ?? '').trim();
+		if (fingerprints) {
+			data.hostKeyPolicy = 'fingerprint';
+			data.hostKeyFingerprints = fingerprints;
+		} else if (entry.host && credentials.hostKeyPolicy === 'fingerprint') {
+			throw new NodeOperationError(
+				this.getNode(),
+				`The credential pins host key fingerprints, which only apply to its own host. Add the fingerprints of "${alias}" to its inventory entry or use known hosts in the credential.`,
+				{ itemIndex },
+			);
+		}
+
+		return data;
+	}
+
+	// Dynamic parameters
+	const data: IDataObject = {
+		host: this.getNodeParameter('host', itemIndex) as string,
+		port: this.getNodeParameter('port', itemIndex) as number,
+		username: this.getNodeParameter('username', itemIndex) as string,
+		hostKeyPolicy: this.getNodeParameter('hostKeyPolicy', itemIndex, 'any') as string,
+		hostKeyFingerprints: this.getNodeParameter('hostKeyFingerprints', itemIndex, '') as string,
+		knownHosts: this.getNodeParameter('knownHosts', itemIndex, '') as string,
+		jumpHosts: this.getNodeParameter('jumpHosts.hosts', itemIndex, []) as IDataObject[],
+	};
+
+	if (authentication === 'password') {
+		data.password = this.getNodeParameter('password', itemIndex) as string;
+	} else {
+		data.privateKey = this.getNodeParameter('privateKey', itemIndex) as string;
+		data.passphrase = this.getNodeParameter('passphrase', itemIndex, '') as string;
+	}
+
+	return data;
+}
+
+/**
+ * Build the command line of the executeCommand operation. In program mode the
+ * program and its arguments are quoted, which `quoted` reports.
+ */
+function getCommand(
+	this: IExecuteFunctions,
+	itemIndex: number,
+): { command: string; quoted: boolean } {
+	if (this.getNodeParameter('commandMode', itemIndex, 'command') !== 'program') {
+		return { command: this.getNodeParameter('command', itemIndex) as string, quoted: false };
+	}
+
+	const args = this.getNodeParameter('arguments.values', itemIndex, []) as Array<{
+		value: string;
+	}>;
+
+	return {
+		command: formatCommand(
+			this.getNodeParameter('program', itemIndex) as string,
+			args.map(({ value }) => value),
+		),
+		quoted: true,
+	};
+}
+
+/**
+ * Check the command and the remote paths of an operation against the policy
+ * configured on the node
+ */
+async function checkPolicy(
+	this: IExecuteFunctions,
+	ssh: NodeSSH,
+	itemIndex: number,
+	operation: string,
+	transferMode: string,
+): Promise<PolicyViolation | undefined> {
+	const options = this.getNodeParameter('policy', itemIndex, {}) as IDataObject;
+	const resolvePath = async (path: string) => await resolveHomeDir.call(this, path, ssh, itemIndex);
+
+	const policy: CommandPolicy = {
+		allowedCommands: splitLines(options.allowedCommands as string),
+		deniedCommands: splitLines(options.deniedCommands as string),
+		blockedSyntax: (options.blockedSyntax as string[]) ?? [],
+		allowedDirectories: await Promise.all(
+			splitLines(options.allowedDirectories as string).map(resolvePath),
+		),
+	};
+
+	if (operation === 'executeCommand') {
+		const { command, quoted } = getCommand.call(this, itemIndex);
+		const env = this.getNodeParameter('environment.variables', itemIndex, []) as Array<{
+			name: string;
+		}>;
+
+		// A persistent session runs the command where the previous one left it
+		const session = this.getNodeParameter('useSession', itemIndex, false)
+			? getSession(getSessionKey.call(this, itemIndex))
+			: undefined;
+
+		return (
+			checkCommand(policy, command, quoted) ??
+			checkEnvironment(policy, env.map(({ name }) => name)) ??
+			checkPath(
+				policy,
+				session?.cwd ??
+					(await resolvePath(this.getNodeParameter('workingDirectory', itemIndex) as string)),
+			)
+		);
+	}
+
+	if (['downloadFile', 'readFile', 'searchFiles', 'listDirectory'].includes(operation)) {
+		return checkPath(
+			policy,
+			await resolvePath(this.getNodeParameter('remotePath', itemIndex) as string),
+		);
+	}
+
+	if (operation === 'uploadFile') {
+		const remoteDirectory = await resolvePath(
+			this.getNodeParameter('remoteDirectory', itemIndex) as string,
+		);
+
+		return checkPath(
+			policy,
+			transferMode === 'directory'
+				? remoteDirectory
+				: joinRemotePath(
+						remoteDirectory,
+						this.getNodeParameter('remoteFilename', itemIndex) as string,
+					),
+		);
+	}
+
+	return undefined;
+}
+
+/**
+ * Return the binary fields uploaded in directory mode, all of them when none are named
+ */
+function getBinaryInputFields(this: IExecuteFunctions, itemIndex: number): string[] {
+	let binaryPropertyNames = splitList(
+		this.getNodeParameter('binaryInputFields', itemIndex, '') as string,
+	);
+	if (!binaryPropertyNames.length) {
+		binaryPropertyNames = Object.keys(this.getInputData()[itemIndex]?.binary ?? {});
+	}
+
+	if (!binaryPropertyNames.length) {
+		throw new NodeOperationError(this.getNode(), 'No binary data exists on item!', {
+			itemIndex,
+		});
+	}
+
+	return binaryPropertyNames;
+}
+
+/**
+ * List the remote paths an upload writes to together with their new content
+ */
+async function getPlannedUploads(
+	this: IExecuteFunctions,
+	ssh: NodeSSH,
+	itemIndex: number,
+	transferMode: string,
+): Promise<Array<{ remotePath: string; data: Buffer }>> {
+	const remoteDirectory = await resolveHomeDir.call(
+		this,
+		this.getNodeParameter('remoteDirectory', itemIndex) as string,
+		ssh,
+		itemIndex,
+	);
+
+	if (transferMode === 'directory') {
+		const uploads = [];
+		for (const binaryPropertyName of getBinaryInputFields.call(this, itemIndex)) {
+			const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+			uploads.push({
+				remotePath: joinRemotePath(
+					remoteDirectory,
+					getBinaryRelativePath(binaryData, binaryPropertyName, 'fileName'),
+				),
+				data: await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName),
+			});
+		}
+		return uploads;
+	}
+
+	const remotePath = joinRemotePath(
+		remoteDirectory,
+		this.getNodeParameter('remoteFilename', itemIndex) as string,
+	);
+
+	if (this.getNodeParameter('uploadSource', itemIndex) === 'binaryData') {
+		const binaryInputField = this.getNodeParameter('binaryInputField', itemIndex) as string;
+		return [
+			{ remotePath, data: await this.helpers.getBinaryDataBuffer(itemIndex, binaryInputField) },
+		];
+	}
+
+	return [
+		{
+			remotePath,
+			data: Buffer.from(this.getNodeParameter('fileContent', itemIndex) as string),
+		},
+	];
+}
+
+/**
+ * Describe the existing files an upload would overwrite, with a diff where
+ * both versions are small text files
+ */
+async function getOverwrittenFiles(
+	ssh: NodeSSH,
+	uploads: Array<{ remotePath: string; data: Buffer }>,
+): Promise<IDataObject[]> {
+	const sftp = await ssh.requestSFTP();
+	const files: IDataObject[] = [];
+
+	try {
+		for (const { remotePath, data } of uploads) {
+			let stats;
+			try {
+				stats = await lstat(sftp, remotePath);
+			} catch (error) {
+				continue;
+			}
+
+			const file: IDataObject = {
+				remotePath,
+				currentSize: stats.size,
+				currentModifiedAt: new Date(stats.mtime * 1000).toISOString(),
+				newSize: data.length,
+				newSha256: hashContent(data),
+			};
+
+			if (stats.isFile() && stats.size <= MAX_DIFF_SIZE && data.length <= MAX_DIFF_SIZE) {
+				const current = await readRemoteFile(sftp, remotePath);
+				const isBinary = current.includes(0) || data.includes(0);
+				const diff = isBinary
+					? undefined
+					: createUnifiedDiff(current.toString(), data.toString(), {
+							oldName: `${remotePath} (current)`,
+							newName: `${remotePath} (new)`,
+						});
+
+				file.diff = diff ?? 'No diff available for binary files or very large changes';
+			} else {
+				file.diff = 'No diff available for files larger than 1 MB';
+			}
+
+			files.push(file);
+		}
+	} finally {
+		sftp.end();
+	}
+
+	return files;
+}
+
+/**
+ * Hold back a risky operation and return its preview instead, unless the
+ * approval mode is off or the approval ID of exactly this operation is among
+ * the approved ones the workflow passes in. Commands are risky when they match one of the risky patterns,
+ * uploads when they overwrite an existing file.
+ */
+async function checkApproval(
+	this: IExecuteFunctions,
+	ssh: NodeSSH,
+	connectionData: IDataObject,
+	itemIndex: number,
+	operation: string,
+	transferMode: string,
+): Promise<IDataObject | undefined> {
+	const approvalMode = this.getNodeParameter('approvalMode', itemIndex, 'off') as string;
+	if (approvalMode === 'off') return undefined;
+
+	let reason: string;
+	let preview: IDataObject;
+
+	if (operation === 'executeCommand') {
+		const { command } = getCommand.call(this, itemIndex);
+		const env = this.getNodeParameter('environment.variables', itemIndex, []) as Array<{
+			name: string;
+			value: string;
+		}>;
+		const fullCommand = `${formatEnvironment(env)}${command}`;
+		const pattern = findMatchingPattern(
+			splitLines(
+				this.getNodeParameter('riskyCommands', itemIndex, DEFAULT_RISKY_COMMANDS) as string,
+			),
+			fullCommand,
+		);
+
+		if (!pattern) return undefined;
+
+		reason = `The command matches the risky pattern "${pattern}"`;
+		preview = {
+			workingDirectory: await resolveHomeDir.call(
+				this,
+				this.getNodeParameter('workingDirectory', itemIndex) as string,
+				ssh,
+				itemIndex,
+			),
+			command: fullCommand,
+		};
+	} else if (operation === 'uploadFile') {
+		const files = await getOverwrittenFiles(
+			ssh,
+			await getPlannedUploads.call(this, ssh, itemIndex, transferMode),
+		);
+
+		if (!files.length) return undefined;
+
+		reason =
+			files.length === 1
+				? `The upload overwrites the existing file "${files[0].remotePath}"`
+				: `The upload overwrites ${files.length} existing files`;
+		preview = { files };
+	} else {
+		return undefined;
+	}
+
+	// The approval ID covers the target server and everything shown in the
+	// preview, so it cannot approve a different command or a file that changed since
+	const approvedOperation: IDataObject = {
+		host: connectionData.host,
+		port: connectionData.port,
+		username: connectionData.username,
+		operation,
+		preview,
+	};
+	const approvedIds = splitList(
+		(this.getNodeParameter('approvedOperations', itemIndex, '') as string).replace(/\s+/g, ','),
+	);
+
+	if (approvalMode === 'token' && isApproved(approvedIds, approvedOperation)) {
+		return undefined;
+	}
+
+	const result: IDataObject = {
+		success: false,
+		pendingApproval: true,
+		operation,
+		reason,
+		preview,
+	};
+
+	if (approvalMode === 'token') {
+		const { approvalId, expiresAt } = createApprovalId(approvedOperation);
+
+		// Only the ID is returned, what approves it comes from the workflow and
+		// cannot be supplied by the agent
+		result.approvalId = approvalId;
+		result.expiresAt = expiresAt;
+		result.message =
+			'The operation needs approval and was not executed. Ask the user to approve the approval ID, then run it again unchanged.';
+		this.sendMessageToUI?.(`Operation pending approval, approval ID ${approvalId}: ${reason}`);
+	} else {
+		result.message = 'Dry run: the operation was not executed';
+	}
+
+	return result;
+}
+
+function getPoolOptions(this: IExecuteFunctions, itemIndex: number): PoolOptions | undefined {
+	if (!this.getNodeParameter('reuseConnections', itemIndex, false)) {
+		return undefined;
+	}
+
+	const options = this.getNodeParameter('poolOptions', itemIndex, {}) as IDataObject;
+
+	return {
+		idleTimeout: ((options.idleTimeout as number) ?? 300) * 1000,
+		keepaliveInterval: ((options.keepaliveInterval as number) ?? 15) * 1000,
+		maxConnections: (options.maxConnections as number) ?? 5,
+	};
+}
+
+function getTransferOptions(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	connectionData: IDataObject,
+	label: string,
+): TransferOptions {
+	const checksum = this.getNodeParameter('checksum', itemIndex, 'none') as string;
+
+	return {
+		useTempFile: this.getNodeParameter('useTempFile', itemIndex, false) as boolean,
+		checksum: checksum === 'none' ? undefined : (checksum as ChecksumAlgorithm),
+		resume: this.getNodeParameter('resumeTransfers', itemIndex, false) as boolean,
+		atomic: this.getNodeParameter('atomicUpload', itemIndex, false) as boolean,
+		resumeKey: getConnectionKey(connectionData),
+		onProgress: reportTransferProgress.call(this, label),
+	};
+}
+
+/**
+ * Build the key a persistent session is registered under. Sessions scoped to
+ * the execution include its ID so they are never shared with another one.
+ */
+function getSessionKey(this: IExecuteFunctions, itemIndex: number): string {
+	const scope = this.getNodeParameter('sessionScope', itemIndex, 'execution') as string;
+	const sessionId = this.getNodeParameter('sessionId', itemIndex) as string;
+
+	return `${getSessionPrefix.call(this, scope)}${sessionId}`;
+}
+
+function getSessionPrefix(this: IExecuteFunctions, scope: string): string {
+	const workflowId = this.getWorkflow().id ?? '';
+	return scope === 'execution' ? `${workflowId}:${this.getExecutionId()}:` : `${workflowId}:*:`;
+}
+
 export class HadidizAi implements INodeType {
 	description: IExtendedNodeTypeDescription = {
 		displayName: 'Hadidiz-AI',
@@ -84,20 +621,31 @@ export class HadidizAi implements INodeType {
 			{
 				name: 'sshPasswordApi',
 				required: false,
+				testedBy: 'sshConnectionTest',
 				displayOptions: {
 					show: {
 						authentication: ['password'],
-						connectionType: ['credentials'],
+						connectionType: ['credentials', 'inventory'],
 					},
 				},
 			},
 			{
 				name: 'sshPrivateKeyApi',
 				required: false,
+				testedBy: 'sshConnectionTest',
 				displayOptions: {
 					show: {
 						authentication: ['privateKey'],
-						connectionType: ['credentials'],
+						connectionType: ['credentials', 'inventory'],
+					},
+				},
+			},
+			{
+				name: 'sshHostSecretsApi',
+				required: false,
+				displayOptions: {
+					show: {
+						connectionType: ['inventory'],
 					},
 				},
 			},
@@ -111,10 +659,10 @@ export class HadidizAi implements INodeType {
 				noDataExpression: true,
 				options: [
 					{
-						name: 'Execute Command',
-						value: 'executeCommand',
-						description: 'Execute a command on a remote server',
-						action: 'Execute a command on a remote server',
+						name: 'Close Session',
+						value: 'closeSession',
+						description: 'Close a persistent shell session',
+						action: 'Close a persistent shell session',
 					},
 					{
 						name: 'Download File',
@@ -122,6 +670,36 @@ export class HadidizAi implements INodeType {
 						description: 'Download a file from a remote server',
 						action: 'Download a file from a remote server',
 					},
+					{
+						name: 'Execute Command',
+						value: 'executeCommand',
+						description: 'Execute a command on a remote server',
+						action: 'Execute a command on a remote server',
+					},
+					{
+						name: 'List Directory',
+						value: 'listDirectory',
+						description: 'List the entries of a directory on a remote server',
+						action: 'List a directory on a remote server',
+					},
+					{
+						name: 'List Hosts',
+						value: 'listHosts',
+						description: 'List the servers of the host inventory the tool may connect to',
+						action: 'List the available servers',
+					},
+					{
+						name: 'Read File',
+						value: 'readFile',
+						description: 'Read a text file on a remote server',
+						action: 'Read a text file on a remote server',
+					},
+					{
+						name: 'Search Files',
+						value: 'searchFiles',
+						description: 'Search files on a remote server by name and content',
+						action: 'Search files on a remote server',
+					},
 					{
 						name: 'Upload File',
 						value: 'uploadFile',
@@ -146,6 +724,12 @@ export class HadidizAi implements INodeType {
 						value: 'parameters',
 						description: 'Use dynamic parameters for connection',
 					},
+					{
+						name: 'Host Inventory',
+						value: 'inventory',
+						description:
+							'Pick a server by alias from a list configured on the node, authenticating with the stored credentials',
+					},
 				],
 				default: 'parameters',
 			},
@@ -165,6 +749,117 @@ export class HadidizAi implements INodeType {
 				],
 				default: 'password',
 			},
+			// Host inventory, the agent only gets to pick an alias
+			{
+				displayName: 'Host Inventory',
+				name: 'hostInventory',
+				type: 'fixedCollection',
+				placeholder: 'Add Host',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						connectionType: ['inventory'],
+					},
+				},
+				description:
+					'Servers the tool may connect to. Host, port and username override the ones of the credential when they are set. Secrets of single hosts go into an SSH Host Secrets API credential under their alias.',
+				options: [
+					{
+						displayName: 'Host',
+						name: 'hosts',
+						values: [
+							{
+								displayName: 'Alias',
+								name: 'alias',
+								type: 'string',
+								default: '',
+								placeholder: 'web-1',
+								description: 'Name the agent uses to pick this server',
+							},
+							{
+								displayName: 'Description',
+								name: 'description',
+								type: 'string',
+								default: '',
+								placeholder: 'Production web server running nginx',
+								description: 'Tells the agent what the server is for',
+							},
+							{
+								displayName: 'Tags',
+								name: 'tags',
+								type: 'string',
+								default: '',
+								placeholder: 'production, web',
+								description: 'Comma-separated tags the agent can filter the hosts by',
+							},
+							{
+								displayName: 'Host',
+								name: 'host',
+								type: 'string',
+								default: '',
+								placeholder: '10.0.0.12',
+								description:
+									'Hostname or IP address of the server, empty to use the one of the credential',
+							},
+							{
+								displayName: 'Port',
+								name: 'port',
+								type: 'number',
+								default: 22,
+							},
+							{
+								displayName: 'Username',
+								name: 'username',
+								type: 'string',
+								default: '',
+								description: 'Username to log in with, empty to use the one of the credential',
+							},
+							{
+								displayName: 'Host Key Fingerprints',
+								name: 'hostKeyFingerprints',
+								type: 'string',
+								default: '',
+								placeholder: 'SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8',
+								description:
+									'SHA256 fingerprints of this host separated by commas or new lines. Fingerprints pinned on the credential only apply to hosts without their own address, so when the credential pins fingerprints every other host needs its own ones here.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Host Alias',
+				name: 'hostAlias',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						connectionType: ['inventory'],
+					},
+					hide: {
+						operation: ['listHosts', 'closeSession'],
+					},
+				},
+				placeholder: 'web-1',
+				description: 'Alias of the inventory host to connect to. The List Hosts operation returns the available aliases.',
+			},
+			{
+				displayName: 'Tag',
+				name: 'hostTag',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['listHosts'],
+					},
+				},
+				description: 'Only list hosts with this tag, empty to list all of them',
+			},
+
 			// Dynamic connection parameters
 			{
 				displayName: 'Host',
@@ -257,58 +952,1042 @@ export class HadidizAi implements INodeType {
 				},
 				description: 'Passphrase for the private key, if required',
 			},
-
-			// Command Specific Parameters
 			{
-				displayName: 'Command',
-				name: 'command',
-				type: 'string',
-				default: '',
-				required: true,
+				displayName: 'Host Key Verification',
+				name: 'hostKeyPolicy',
+				type: 'options',
+				options: [
+					{
+						name: 'Accept Any Host Key',
+						value: 'any',
+						description: 'Trust whatever key the server presents',
+					},
+					{
+						name: 'Pinned Fingerprints',
+						value: 'fingerprint',
+						description: 'Only accept host keys with one of the given SHA256 fingerprints',
+					},
+					{
+						name: 'Known Hosts',
+						value: 'knownHosts',
+						description: 'Only accept host keys listed in the given known_hosts content',
+					},
+				],
+				default: 'any',
 				displayOptions: {
 					show: {
-						operation: ['executeCommand'],
+						connectionType: ['parameters'],
 					},
 				},
-				description: 'The command to execute on the remote server',
-				placeholder: 'ls -la',
 			},
 			{
-				displayName: 'Working Directory',
-				name: 'workingDirectory',
+				displayName: 'Host Key Fingerprints',
+				name: 'hostKeyFingerprints',
 				type: 'string',
-				default: '~',
+				default: '',
+				placeholder: 'SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8',
 				displayOptions: {
 					show: {
-						operation: ['executeCommand'],
+						connectionType: ['parameters'],
+						hostKeyPolicy: ['fingerprint'],
 					},
 				},
-				description: 'Directory where the command will be executed',
+				description: 'One or more SHA256 fingerprints separated by commas or new lines',
 			},
-
-			// Download Specific Parameters
 			{
-				displayName: 'Remote File Path',
-				name: 'remotePath',
+				displayName: 'Known Hosts',
+				name: 'knownHosts',
 				type: 'string',
 				default: '',
-				required: true,
+				typeOptions: {
+					rows: 4,
+				},
+				placeholder: 'example.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAA...',
 				displayOptions: {
 					show: {
-						operation: ['downloadFile'],
+						connectionType: ['parameters'],
+						hostKeyPolicy: ['knownHosts'],
 					},
 				},
-				placeholder: '/home/user/file.txt',
-				description: 'Path to the file on the remote server',
+				description: 'Content of a known_hosts file, e.g. the output of ssh-keyscan',
 			},
 			{
-				displayName: 'Binary Property Name',
-				name: 'binaryPropertyName',
-				type: 'string',
-				default: 'data',
+				displayName: 'Jump Hosts',
+				name: 'jumpHosts',
+				type: 'fixedCollection',
+				placeholder: 'Add Jump Host',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
 				displayOptions: {
 					show: {
-						operation: ['downloadFile'],
+						connectionType: ['parameters'],
+					},
+				},
+				default: {},
+				description:
+					'Hosts to tunnel the connection through, in order, like OpenSSH ProxyJump. The first one is dialed directly.',
+				options: [
+					{
+						displayName: 'Jump Host',
+						name: 'hosts',
+						values: [
+							{
+								displayName: 'Host',
+								name: 'host',
+								type: 'string',
+								default: '',
+								placeholder: 'bastion.example.com',
+								description: 'Hostname or IP address of the jump host',
+							},
+							{
+								displayName: 'Port',
+								name: 'port',
+								type: 'number',
+								default: 22,
+								description: 'Port number of the jump host',
+							},
+							{
+								displayName: 'Username',
+								name: 'username',
+								type: 'string',
+								default: '',
+								description: 'Username to use for authentication on the jump host',
+							},
+							{
+								displayName: 'Password',
+								name: 'password',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									password: true,
+								},
+								description: 'Password to use for authentication, leave empty when using a private key',
+							},
+							{
+								displayName: 'Private Key',
+								name: 'privateKey',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									rows: 4,
+									password: true,
+								},
+								description: 'Private key to use for authentication, takes precedence over the password',
+							},
+							{
+								displayName: 'Passphrase',
+								name: 'passphrase',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									password: true,
+								},
+								description: 'Passphrase for the private key, if required',
+							},
+							{
+								displayName: 'Host Key Fingerprints',
+								name: 'hostKeyFingerprints',
+								type: 'string',
+								default: '',
+								description:
+									'SHA256 fingerprints the jump host has to present. Leave empty to accept any host key.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Reuse Connections',
+				name: 'reuseConnections',
+				type: 'boolean',
+				default: false,
+				description:
+					'Whether to keep connections open in a pool after a call and reuse them in later calls, which saves the connection handshake in agent loops. Sessions keep their own connection.',
+			},
+			{
+				displayName: 'Connection Pool Options',
+				name: 'poolOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				displayOptions: {
+					show: {
+						reuseConnections: [true],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Idle Timeout (Seconds)',
+						name: 'idleTimeout',
+						type: 'number',
+						default: 300,
+						typeOptions: {
+							minValue: 1,
+						},
+						description: 'How long an unused connection is kept open',
+					},
+					{
+						displayName: 'Keepalive Interval (Seconds)',
+						name: 'keepaliveInterval',
+						type: 'number',
+						default: 15,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'How often a pooled connection sends keepalive packets, so broken connections are noticed',
+					},
+					{
+						displayName: 'Max Connections per Host',
+						name: 'maxConnections',
+						type: 'number',
+						default: 5,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'Most connections open at the same time to one host with the same credential. Further calls wait for a free one.',
+					},
+				],
+			},
+
+			// Policy that commands and remote paths are checked against before anything runs
+			{
+				displayName: 'Policy',
+				name: 'policy',
+				type: 'collection',
+				placeholder: 'Add Rule',
+				default: {},
+				description:
+					'Restrict what the tool may do. Calls that break a rule are not executed and return a refusal that names the rule instead.',
+				options: [
+					{
+						displayName: 'Allowed Commands',
+						name: 'allowedCommands',
+						type: 'string',
+						typeOptions: {
+							rows: 4,
+						},
+						default: '',
+						placeholder: 'git status\nls\n/^systemctl status [\\w.-]+$/',
+						description:
+							'One pattern per line. Every command of a command line has to start with one of them, or match it when written as /regex/. Command substitution like $(...) or backticks is refused then. Leave empty to allow any command that is not denied.',
+					},
+					{
+						displayName: 'Allowed Directories',
+						name: 'allowedDirectories',
+						type: 'string',
+						typeOptions: {
+							rows: 4,
+						},
+						default: '',
+						placeholder: '/var/www\n~/deploy',
+						description:
+							'One directory per line. The working directory, remote paths and remote directories have to lie inside one of them.',
+					},
+					{
+						displayName: 'Blocked Shell Syntax',
+						name: 'blockedSyntax',
+						type: 'multiOptions',
+						options: [
+							{
+								name: 'Background Jobs (&)',
+								value: 'background',
+							},
+							{
+								name: 'Command Chaining (;, &&, ||)',
+								value: 'chaining',
+							},
+							{
+								name: 'Pipes (|)',
+								value: 'pipes',
+							},
+							{
+								name: 'Redirects (<, >)',
+								value: 'redirects',
+							},
+							{
+								name: 'Subshells and Command Substitution',
+								value: 'subshells',
+							},
+						],
+						default: [],
+						description:
+							'Shell syntax commands may not use. Not checked for programs with arguments, which are quoted by the node.',
+					},
+					{
+						displayName: 'Denied Commands',
+						name: 'deniedCommands',
+						type: 'string',
+						typeOptions: {
+							rows: 4,
+						},
+						default: '',
+						placeholder: 'rm -rf /\nshutdown\nmkfs',
+						description:
+							'One pattern per line. Commands that contain one of them anywhere, or match it when written as /regex/, are refused.',
+					},
+				],
+			},
+
+			// Approval of operations that change the server
+			{
+				displayName: 'Approval Mode',
+				name: 'approvalMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Dry Run',
+						value: 'dryRun',
+						description: 'Never run risky operations, only return their preview',
+					},
+					{
+						name: 'Require Approval',
+						value: 'token',
+						description:
+							'Return a preview and an approval ID for risky operations, which run once the workflow passes the ID in as approved',
+					},
+					{
+						name: 'Run Directly',
+						value: 'off',
+						description: 'Run every operation without asking',
+					},
+				],
+				default: 'off',
+				displayOptions: {
+					show: {
+						operation: ['executeCommand', 'uploadFile'],
+					},
+				},
+				description:
+					'What to do with commands that match a risky pattern and uploads that overwrite an existing file',
+			},
+			{
+				displayName: 'Risky Commands',
+				name: 'riskyCommands',
+				type: 'string',
+				typeOptions: {
+					rows: 6,
+				},
+				default: DEFAULT_RISKY_COMMANDS,
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						approvalMode: ['dryRun', 'token'],
+					},
+				},
+				description:
+					'One pattern per line. Commands that contain one of them, or match it when written as /regex/, need approval.',
+			},
+			{
+				displayName: 'Approved Operation IDs',
+				name: 'approvedOperations',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['executeCommand', 'uploadFile'],
+						approvalMode: ['token'],
+					},
+				},
+				description:
+					'Comma-separated approval IDs a person approved. Each one only runs the exact operation it was issued for, within an hour. Fill it from a source the agent cannot write to, like a form, a Wait node resumed by a person or a table of approvals, never from the agent.',
+			},
+
+			// Command Specific Parameters
+			{
+				displayName: 'Command Type',
+				name: 'commandMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Shell Command',
+						value: 'command',
+						description: 'Run a command line as typed, including pipes and other shell syntax',
+					},
+					{
+						name: 'Program With Arguments',
+						value: 'program',
+						description:
+							'Run a single program with arguments that are quoted before they are sent, so they cannot inject shell syntax',
+					},
+				],
+				default: 'command',
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+					},
+				},
+			},
+			{
+				displayName: 'Command',
+				name: 'command',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						commandMode: ['command'],
+					},
+				},
+				description: 'The command to execute on the remote server',
+				placeholder: 'ls -la',
+			},
+			{
+				displayName: 'Program',
+				name: 'program',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						commandMode: ['program'],
+					},
+				},
+				description: 'The name or path of the program to run',
+				placeholder: 'rm',
+			},
+			{
+				displayName: 'Arguments',
+				name: 'arguments',
+				type: 'fixedCollection',
+				placeholder: 'Add Argument',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						commandMode: ['program'],
+					},
+				},
+				description: 'Arguments passed to the program, each one quoted as a single word',
+				options: [
+					{
+						displayName: 'Argument',
+						name: 'values',
+						values: [
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Environment Variables',
+				name: 'environment',
+				type: 'fixedCollection',
+				placeholder: 'Add Variable',
+				typeOptions: {
+					multipleValues: true,
+				},
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+					},
+				},
+				description:
+					'Environment variables exported before the command runs, with quoted values. With allowed or denied commands, variables like PATH, LD_PRELOAD or BASH_ENV that change what the command runs are refused.',
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variables',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'APP_ENV',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Working Directory',
+				name: 'workingDirectory',
+				type: 'string',
+				default: '~',
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+					},
+				},
+				description:
+					'Directory where the command will be executed. In a persistent session only the first command starts there, later ones run where the previous one left off.',
+			},
+			{
+				displayName: 'Use Persistent Session',
+				name: 'useSession',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+					},
+				},
+				description:
+					'Whether to run the command in a long-lived shell that keeps the working directory, exported variables and activated environments between calls',
+			},
+			{
+				displayName: 'Session ID',
+				name: 'sessionId',
+				type: 'string',
+				default: 'default',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						useSession: [true],
+					},
+				},
+				description: 'Commands with the same session ID share one shell',
+			},
+			{
+				displayName: 'Session ID',
+				name: 'sessionId',
+				type: 'string',
+				default: 'default',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['closeSession'],
+					},
+				},
+				description: 'ID of the session to close',
+			},
+			{
+				displayName: 'Session Scope',
+				name: 'sessionScope',
+				type: 'options',
+				options: [
+					{
+						name: 'Across Executions',
+						value: 'workflow',
+						description:
+							'The session is shared by all executions of the workflow until it is closed or idle for too long',
+					},
+					{
+						name: 'This Execution',
+						value: 'execution',
+						description:
+							'The session belongs to the current execution and is closed when the execution is cancelled or idle for too long. n8n does not tell nodes when an execution finishes, so after a normal end it stays open until the idle timeout unless it is closed with Close Session.',
+					},
+				],
+				default: 'execution',
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						useSession: [true],
+					},
+				},
+			},
+			{
+				displayName: 'Session Scope',
+				name: 'sessionScope',
+				type: 'options',
+				options: [
+					{
+						name: 'Across Executions',
+						value: 'workflow',
+						description:
+							'The session is shared by all executions of the workflow until it is closed or idle for too long',
+					},
+					{
+						name: 'This Execution',
+						value: 'execution',
+						description:
+							'The session belongs to the current execution and is closed when the execution is cancelled or idle for too long. n8n does not tell nodes when an execution finishes, so after a normal end it stays open until the idle timeout unless it is closed with Close Session.',
+					},
+				],
+				default: 'execution',
+				displayOptions: {
+					show: {
+						operation: ['closeSession'],
+					},
+				},
+			},
+			{
+				displayName:
+					'Sessions of this execution stay open after it finished normally, until the idle timeout below or a Close Session call. Only a cancelled execution closes them right away.',
+				name: 'sessionLifetimeNotice',
+				type: 'notice',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						useSession: [true],
+						sessionScope: ['execution'],
+					},
+				},
+			},
+			{
+				displayName: 'Session Idle Timeout (Seconds)',
+				name: 'sessionIdleTimeout',
+				type: 'number',
+				default: 300,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+						useSession: [true],
+					},
+				},
+				description:
+					'Close the session and its connection after it was not used for this long. It applies when the session gets opened, and is also what closes sessions of an execution that finished normally.',
+			},
+			{
+				displayName: 'Timeout (Seconds)',
+				name: 'timeout',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+					},
+				},
+				description:
+					'Terminate the command after this many seconds and return the output received so far. 0 waits forever.',
+			},
+			{
+				displayName: 'Kill Grace Period (Seconds)',
+				name: 'killGracePeriod',
+				type: 'number',
+				default: 5,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+					},
+				},
+				description:
+					'How long to wait after sending TERM to a timed out command before sending KILL',
+			},
+			{
+				displayName: 'Output Shaping',
+				name: 'outputShaping',
+				type: 'collection',
+				placeholder: 'Add Option',
+				default: {},
+				displayOptions: {
+					show: {
+						operation: ['executeCommand'],
+					},
+				},
+				description:
+					'Keep stdout and stderr small enough for the context of an AI agent. Truncated output reports its original size.',
+				options: [
+					{
+						displayName: 'Collapse Repeated Lines',
+						name: 'collapseRepeatedLines',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether to replace runs of identical lines with one line and a note how often it repeats',
+					},
+					{
+						displayName: 'Max Bytes',
+						name: 'maxBytes',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 16384,
+						description: 'Maximum size of stdout and stderr each, 0 for no limit',
+					},
+					{
+						displayName: 'Max Lines',
+						name: 'maxLines',
+						type: 'number',
+						typeOptions: {
+							minValue: 0,
+						},
+						default: 200,
+						description: 'Maximum number of lines of stdout and stderr each, 0 for no limit',
+					},
+					{
+						displayName: 'Strip ANSI Codes',
+						name: 'stripAnsi',
+						type: 'boolean',
+						default: true,
+						description:
+							'Whether to remove color codes and other terminal escape sequences, and lines overwritten by progress bars',
+					},
+					{
+						displayName: 'Truncation Strategy',
+						name: 'strategy',
+						type: 'options',
+						options: [
+							{
+								name: 'Keep Head',
+								value: 'head',
+								description: 'Keep the beginning of the output',
+							},
+							{
+								name: 'Keep Head and Tail',
+								value: 'headAndTail',
+								description: 'Keep the beginning and the end, omitting the middle',
+							},
+							{
+								name: 'Keep Tail',
+								value: 'tail',
+								description: 'Keep the end of the output',
+							},
+						],
+						default: 'headAndTail',
+						description: 'Which part of the output to keep when it exceeds a limit',
+					},
+				],
+			},
+
+			// Read File Specific Parameters
+			{
+				displayName: 'Remote File Path',
+				name: 'remotePath',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['readFile'],
+					},
+				},
+				placeholder: '/etc/nginx/nginx.conf',
+				description: 'Path to the text file on the remote server',
+			},
+			{
+				displayName: 'Start Line',
+				name: 'startLine',
+				type: 'number',
+				default: 1,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['readFile'],
+					},
+				},
+				description: 'First line to return, counting from 1',
+			},
+			{
+				displayName: 'End Line',
+				name: 'endLine',
+				type: 'number',
+				default: 0,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['readFile'],
+					},
+				},
+				description: 'Last line to return, 0 to read up to the end of the file',
+			},
+			{
+				displayName: 'Max Bytes',
+				name: 'maxBytes',
+				type: 'number',
+				default: 65536,
+				typeOptions: {
+					minValue: 0,
+				},
+				displayOptions: {
+					show: {
+						operation: ['readFile'],
+					},
+				},
+				description:
+					'Stop reading once the returned lines reach this size and mark the content as truncated, 0 for no limit',
+			},
+
+			// Search Files and List Directory Specific Parameters
+			{
+				displayName: 'Remote Directory Path',
+				name: 'remotePath',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['searchFiles', 'listDirectory'],
+					},
+				},
+				placeholder: '/var/www/app',
+				description: 'Path to the directory on the remote server',
+			},
+			{
+				displayName: 'Name Pattern',
+				name: 'namePattern',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['searchFiles'],
+					},
+				},
+				placeholder: '*.{js,ts}',
+				description:
+					'Glob pattern the files have to match, against the file name or, when it contains a slash, the relative path. Leave empty to search all files.',
+			},
+			{
+				displayName: 'Content Pattern',
+				name: 'contentPattern',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['searchFiles'],
+					},
+				},
+				placeholder: 'TODO|FIXME',
+				description:
+					'Regular expression to search for in the files. Leave empty to only match file names.',
+			},
+			{
+				displayName: 'Ignore Case',
+				name: 'ignoreCase',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['searchFiles'],
+					},
+				},
+				description: 'Whether the content pattern ignores upper and lower case',
+			},
+			{
+				displayName: 'Max Results',
+				name: 'maxResults',
+				type: 'number',
+				default: 100,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['searchFiles'],
+					},
+				},
+				description: 'Maximum number of matches to return',
+			},
+			{
+				displayName: 'Max Files Scanned',
+				name: 'maxFilesScanned',
+				type: 'number',
+				default: 5000,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['searchFiles'],
+					},
+				},
+				description:
+					'Stop after this many files matching the name pattern were scanned and mark the result as truncated',
+			},
+			{
+				displayName: 'Include Hidden',
+				name: 'includeHidden',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['listDirectory'],
+					},
+				},
+				description: 'Whether to include entries whose name starts with a dot',
+			},
+			{
+				displayName: 'Max Entries',
+				name: 'maxEntries',
+				type: 'number',
+				default: 500,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['listDirectory'],
+					},
+				},
+				description: 'Maximum number of entries to return',
+			},
+
+			// Transfer mode shared by downloads and binary uploads
+			{
+				displayName: 'Transfer Mode',
+				name: 'transferMode',
+				type: 'options',
+				options: [
+					{
+						name: 'Single File',
+						value: 'file',
+						description: 'Transfer exactly one file',
+					},
+					{
+						name: 'Directory',
+						value: 'directory',
+						description: 'Transfer a whole directory tree',
+					},
+				],
+				default: 'file',
+				displayOptions: {
+					show: {
+						operation: ['downloadFile', 'uploadFile'],
+					},
+				},
+			},
+
+			// Download Specific Parameters
+			{
+				displayName: 'Remote File Path',
+				name: 'remotePath',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
+						transferMode: ['file'],
+					},
+				},
+				placeholder: '/home/user/file.txt',
+				description: 'Path to the file on the remote server',
+			},
+			{
+				displayName: 'Remote Directory Path',
+				name: 'remotePath',
+				type: 'string',
+				default: '',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
+						transferMode: ['directory'],
+					},
+				},
+				placeholder: '/var/log/app',
+				description: 'Path to the directory on the remote server',
+			},
+			{
+				displayName: 'Output',
+				name: 'directoryOutput',
+				type: 'options',
+				options: [
+					{
+						name: 'One Item per File',
+						value: 'files',
+					},
+					{
+						name: 'Single Archive (.Tar.gz)',
+						value: 'archive',
+					},
+				],
+				default: 'files',
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
+						transferMode: ['directory'],
+					},
+				},
+			},
+			{
+				displayName: 'Include',
+				name: 'include',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
+						transferMode: ['directory'],
+					},
+				},
+				placeholder: '*.log, **/*.json',
+				description:
+					'Comma-separated glob patterns of files to download. Leave empty to download all files.',
+			},
+			{
+				displayName: 'Exclude',
+				name: 'exclude',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
+						transferMode: ['directory'],
+					},
+				},
+				placeholder: '*.tmp, cache/**',
+				description: 'Comma-separated glob patterns of files to skip',
+			},
+			{
+				displayName: 'Max Files',
+				name: 'maxFiles',
+				type: 'number',
+				default: 1000,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
+						transferMode: ['directory'],
+					},
+				},
+				description: 'Fail when the directory contains more matching files than this',
+			},
+			{
+				displayName: 'Max Total Size (MB)',
+				name: 'maxTotalSize',
+				type: 'number',
+				default: 100,
+				typeOptions: {
+					minValue: 1,
+				},
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
+						transferMode: ['directory'],
+					},
+				},
+				description: 'Fail when the matching files are larger than this in total',
+			},
+			{
+				displayName: 'Binary Property Name',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				displayOptions: {
+					show: {
+						operation: ['downloadFile'],
 					},
 				},
 				description: 'Name of the binary property to store the downloaded file',
@@ -335,6 +2014,7 @@ export class HadidizAi implements INodeType {
 				displayOptions: {
 					show: {
 						operation: ['uploadFile'],
+						transferMode: ['file'],
 					},
 				},
 			},
@@ -348,10 +2028,26 @@ export class HadidizAi implements INodeType {
 					show: {
 						operation: ['uploadFile'],
 						uploadSource: ['binaryData'],
+						transferMode: ['file'],
 					},
 				},
 				description: 'The field with binary data to upload',
 			},
+			{
+				displayName: 'Binary Input Fields',
+				name: 'binaryInputFields',
+				type: 'string',
+				default: '',
+				displayOptions: {
+					show: {
+						operation: ['uploadFile'],
+						transferMode: ['directory'],
+					},
+				},
+				placeholder: 'data, assets',
+				description:
+					'Comma-separated binary fields to upload. Their file names may contain sub directories like "css/site.css". Leave empty to upload all binary fields.',
+			},
 			{
 				displayName: 'File Content',
 				name: 'fileContent',
@@ -364,6 +2060,7 @@ export class HadidizAi implements INodeType {
 					show: {
 						operation: ['uploadFile'],
 						uploadSource: ['textContent'],
+						transferMode: ['file'],
 					},
 				},
 				description: 'The text content to upload as a file',
@@ -390,10 +2087,77 @@ export class HadidizAi implements INodeType {
 				displayOptions: {
 					show: {
 						operation: ['uploadFile'],
+						transferMode: ['file'],
 					},
 				},
 				description: 'Name of the file on the remote server',
 			},
+			{
+				displayName: 'Use Temporary File',
+				name: 'useTempFile',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['downloadFile', 'uploadFile'],
+					},
+				},
+				description:
+					'Whether to buffer transfers in a local temporary file instead of streaming them between the binary data and the server. Only meant as a fallback, it needs local disk space for the whole file.',
+			},
+			{
+				displayName: 'Checksum',
+				name: 'checksum',
+				type: 'options',
+				options: [
+					{
+						name: 'None',
+						value: 'none',
+					},
+					{
+						name: 'MD5',
+						value: 'md5',
+					},
+					{
+						name: 'SHA-256',
+						value: 'sha256',
+					},
+				],
+				default: 'none',
+				displayOptions: {
+					show: {
+						operation: ['downloadFile', 'uploadFile'],
+					},
+				},
+				description:
+					'Checksum of the transferred data to compare with the one the server computes with sha256sum or md5sum. A mismatch fails the transfer.',
+			},
+			{
+				displayName: 'Resume Transfers',
+				name: 'resumeTransfers',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['downloadFile', 'uploadFile'],
+					},
+				},
+				description:
+					'Whether to continue an interrupted transfer from the size of the partial file it left behind instead of starting over',
+			},
+			{
+				displayName: 'Atomic Upload',
+				name: 'atomicUpload',
+				type: 'boolean',
+				default: false,
+				displayOptions: {
+					show: {
+						operation: ['uploadFile'],
+					},
+				},
+				description:
+					'Whether to upload to a partial file next to the target and rename it into place once it is complete, so the target never holds a partially written file',
+			},
 		],
 	};
 
@@ -402,17 +2166,50 @@ export class HadidizAi implements INodeType {
 		loadOptions: {
 			// You can add dynamic loading options here if needed
 		},
+		credentialTest: {
+			async sshConnectionTest(
+				this: ICredentialTestFunctions,
+				credential: ICredentialsDecrypted,
+			): Promise<INodeCredentialTestResult> {
+				const ssh = new NodeSSH();
+				let hostKeyFingerprint: string | undefined;
+				try {
+					({ hostKeyFingerprint } = await connect(ssh, credential.data as IDataObject));
+				} catch (error) {
+					return {
+						status: 'Error',
+						message: `SSH connection failed (${getErrorCode(error)}): ${error.message}`,
+					};
+				} finally {
+					ssh.dispose();
+				}
+				return {
+					status: 'OK',
+					message: `Connection successful! Host key fingerprint: ${hostKeyFingerprint}`,
+				};
+			},
+		},
 	};
 
 	// This helps describe the node to AI Agent
 	getImplementationDescription(operation: string): string {
 		switch (operation) {
 			case 'executeCommand':
-				return 'Executes a command on a remote server via SSH and returns the output';
+				return 'Executes a command on a remote server via SSH and returns the output. Commands the node policy does not allow are refused with the rule that matched, risky commands may return a preview that is pending approval instead of running.';
 			case 'downloadFile':
-				return 'Downloads a file from a remote server via SSH and returns it as binary data';
+				return 'Downloads a file or a whole directory from a remote server via SSH and returns it as binary data';
+			case 'readFile':
+				return 'Reads a text file on a remote server and returns its content as text, optionally only a range of lines';
+			case 'searchFiles':
+				return 'Searches the files below a directory on a remote server by file name glob and content regex and returns the matching paths with line numbers and snippets';
+			case 'listDirectory':
+				return 'Lists the entries of a directory on a remote server with their type, size and modification time';
+			case 'listHosts':
+				return 'Lists the aliases, descriptions and tags of the servers this tool may connect to. Pass one of the aliases as the host alias of the other operations.';
+			case 'closeSession':
+				return 'Closes a persistent shell session that was opened by executing commands with a session ID';
 			case 'uploadFile':
-				return 'Uploads a file to a remote server via SSH';
+				return 'Uploads a file or several binary files as a directory tree to a remote server via SSH. Uploads that overwrite existing files may return a diff that is pending approval instead of running.';
 			default:
 				return 'Performs SSH operations on a remote server';
 		}
@@ -424,6 +2221,12 @@ export class HadidizAi implements INodeType {
 			host: {
 				all: 'The hostname or IP address of the SSH server to connect to',
 			},
+			hostAlias: {
+				all: 'The alias of the server to connect to, as returned by the listHosts operation',
+			},
+			hostTag: {
+				listHosts: 'Only list servers with this tag, empty for all servers',
+			},
 			port: {
 				all: 'The port number of the SSH server (default: 22)',
 			},
@@ -439,14 +2242,67 @@ export class HadidizAi implements INodeType {
 			passphrase: {
 				all: 'The passphrase for the private key if required',
 			},
+			commandMode: {
+				executeCommand:
+					'Either "command" to run a shell command line or "program" to run one program with quoted arguments, which is safe for untrusted values',
+			},
 			command: {
 				executeCommand: 'The shell command to execute on the remote server',
 			},
+			program: {
+				executeCommand: 'The program to run when the command type is "program"',
+			},
+			arguments: {
+				executeCommand: 'The arguments of the program, each one passed as a single literal word',
+			},
+			environment: {
+				executeCommand: 'Environment variables to set for the command',
+			},
 			workingDirectory: {
 				executeCommand: 'The directory on the remote server where the command will be executed',
 			},
+			sessionId: {
+				executeCommand:
+					'ID of the persistent shell session to run the command in, so the working directory and environment carry over to later commands',
+				closeSession: 'ID of the persistent shell session to close',
+			},
+			timeout: {
+				executeCommand:
+					'Seconds after which a command that has not finished is terminated, 0 to wait forever',
+			},
+			transferMode: {
+				all: 'Either "file" to transfer a single file or "directory" to transfer a whole directory tree',
+			},
 			remotePath: {
-				downloadFile: 'The full path to the file on the remote server that should be downloaded',
+				downloadFile:
+					'The full path to the file on the remote server that should be downloaded, or to the directory in directory mode',
+				readFile: 'The full path to the text file on the remote server that should be read',
+				searchFiles: 'The directory on the remote server to search in, including its sub directories',
+				listDirectory: 'The directory on the remote server to list',
+			},
+			startLine: {
+				readFile: 'The first line to read, counting from 1',
+			},
+			endLine: {
+				readFile: 'The last line to read, 0 to read up to the end of the file',
+			},
+			namePattern: {
+				searchFiles: 'Glob pattern for the file names to search, e.g. "*.log", empty for all files',
+			},
+			contentPattern: {
+				searchFiles: 'Regular expression to look for in the file contents, empty to only match names',
+			},
+			directoryOutput: {
+				downloadFile: 'Either "files" to return one item per file or "archive" to return a single .tar.gz',
+			},
+			include: {
+				downloadFile: 'Comma-separated glob patterns of the files to download from the directory',
+			},
+			exclude: {
+				downloadFile: 'Comma-separated glob patterns of the files to skip in the directory',
+			},
+			binaryInputFields: {
+				uploadFile: 'Comma-separated binary fields to upload into the remote directory, empty for all',
 			},
 			remoteDirectory: {
 				uploadFile: 'The directory on the remote server where the file should be uploaded to',
@@ -479,142 +2335,457 @@ export class HadidizAi implements INodeType {
 		try {
 			// Get basic parameters
 			const operation = this.getNodeParameter('operation', itemIndex) as string;
-			const connectionType = this.getNodeParameter('connectionType', itemIndex) as string;
-			const authentication = this.getNodeParameter('authentication', itemIndex) as string;
-			
-			// Initialize SSH client
-			const ssh = new NodeSSH();
-			
-			// Set up connection options based on connection type
-			let connectionOptions: Config;
+			const transferMode = this.getNodeParameter('transferMode', itemIndex, 'file') as string;
 			
-			if (connectionType === 'credentials') {
-				if (authentication === 'password') {
-					const credentials = await this.getCredentials('sshPasswordApi');
-					connectionOptions = {
-						host: credentials.host as string,
-						username: credentials.username as string,
-						port: credentials.port as number,
-						password: credentials.password as string,
-					};
-				} else {
-					const credentials = await this.getCredentials('sshPrivateKeyApi');
-					connectionOptions = {
-						host: credentials.host as string,
-						username: credentials.username as string,
-						port: credentials.port as number,
-						privateKey: formatPrivateKey(credentials.privateKey as string),
-					};
-					
-					if (credentials.passphrase) {
-						connectionOptions.passphrase = credentials.passphrase as string;
-					}
-				}
-			} else {
-				// Dynamic parameters
-				const host = this.getNodeParameter('host', itemIndex) as string;
-				const port = this.getNodeParameter('port', itemIndex) as number;
-				const username = this.getNodeParameter('username', itemIndex) as string;
-				
-				if (authentication === 'password') {
-					const password = this.getNodeParameter('password', itemIndex) as string;
-					connectionOptions = {
-						host,
-						port,
-						username,
-						password,
-					};
-				} else {
-					const privateKey = this.getNodeParameter('privateKey', itemIndex) as string;
-					const passphrase = this.getNodeParameter('passphrase', itemIndex, '') as string;
-					
-					connectionOptions = {
-						host,
-						port,
-						username,
-						privateKey: formatPrivateKey(privateKey),
-					};
-					
-					if (passphrase) {
-						connectionOptions.passphrase = passphrase;
-					}
-				}
+			// Listing the inventory only reveals aliases, descriptions and tags
+			if (operation === 'listHosts') {
+				const tag = (this.getNodeParameter('hostTag', itemIndex, '') as string).trim();
+				const hosts = getInventory
+					.call(this, itemIndex)
+					.map((host) => ({
+						alias: host.alias as string,
+						description: host.description as string,
+						tags: splitList(host.tags as string),
+					}))
+					.filter((host) => !tag || host.tags.includes(tag));
+
+				return [[{ json: { success: true, operation, hosts } }]];
 			}
-			
-			// Connect to SSH server
-			try {
-				await ssh.connect(connectionOptions);
-			} catch (error) {
+
+			// Closing a session needs no connection of its own
+			if (operation === 'closeSession') {
+				return [
+					[
+						{
+							json: {
+								success: true,
+								operation,
+								sessionId: this.getNodeParameter('sessionId', itemIndex) as string,
+								closed: closeSession(getSessionKey.call(this, itemIndex)),
+							},
+						},
+					],
+				];
+			}
+
+			const sessionKey =
+				operation === 'executeCommand' && this.getNodeParameter('useSession', itemIndex, false)
+					? getSessionKey.call(this, itemIndex)
+					: undefined;
+
+			const connectionData = await getConnectionData.call(this, itemIndex);
+			const target = `${connectionData.username}@${connectionData.host}:${connectionData.port}`;
+
+			// An open session brings its own connection
+			const existingSession = sessionKey ? getSession(sessionKey) : undefined;
+			if (existingSession && existingSession.target !== target) {
 				throw new NodeOperationError(
 					this.getNode(),
-					`SSH connection failed: ${error.message}`,
+					`The session "${this.getNodeParameter('sessionId', itemIndex)}" is connected to ${existingSession.target}. Close it or use another session ID for ${target}.`,
 					{ itemIndex },
 				);
 			}
+
+			let connection: PooledConnection;
+
+			if (existingSession) {
+				connection = { ssh: existingSession.ssh, release: () => undefined };
+			} else {
+				// Connect to SSH server. A new session gets a connection outside of the
+				// pool, as it is closed together with the session.
+				try {
+					connection = await openConnection(
+						connectionData,
+						sessionKey ? undefined : getPoolOptions.call(this, itemIndex),
+					);
+				} catch (error) {
+					throw toNodeOperationError(this.getNode(), error, {
+						itemIndex,
+						message: `SSH connection failed: ${error.message}`,
+					});
+				}
+			}
+
+			const { ssh } = connection;
+
+			// The SFTP session is opened once an operation needs it
+			let sftp: SFTPWrapper | undefined;
+			const getSftp = async () => (sftp ??= await ssh.requestSFTP());
 			
 			try {
-				// Perform the requested operation
-				if (operation === 'executeCommand') {
+				// Refuse operations the policy does not allow before doing anything
+				const violation = await checkPolicy.call(this, ssh, itemIndex, operation, transferMode);
+				const pendingApproval = violation
+					? undefined
+					: await checkApproval.call(this, ssh, connectionData, itemIndex, operation, transferMode);
+
+				if (violation) {
+					returnData.push({
+						json: {
+							success: false,
+							refused: true,
+							operation,
+							rule: violation.rule,
+							pattern: violation.pattern,
+							message: `Refused by the node policy: ${violation.message}`,
+						},
+					});
+				} else if (pendingApproval) {
+					returnData.push({
+						json: pendingApproval,
+					});
+				} else if (operation === 'executeCommand') {
 					// Execute Command
-					const command = this.getNodeParameter('command', itemIndex) as string;
+					const { command } = getCommand.call(this, itemIndex);
+					const env = this.getNodeParameter('environment.variables', itemIndex, []) as Array<{
+						name: string;
+						value: string;
+					}>;
 					const workingDirectory = this.getNodeParameter('workingDirectory', itemIndex) as string;
 					
 					// Resolve home directory in working directory path
 					const cwd = await resolveHomeDir.call(this, workingDirectory, ssh, itemIndex);
 					
-					// Execute command on the remote server
-					const result = await ssh.execCommand(command, { cwd });
+					const timeout = (this.getNodeParameter('timeout', itemIndex, 0) as number) * 1000;
+					const abortSignal = this.getExecutionCancelSignal?.();
+					let result: CommandResult;
+					let sessionOutput: IDataObject = {};
+
+					if (sessionKey) {
+						// Run in the persistent shell, which starts in the working directory
+						let session = getSession(sessionKey);
+
+						if (!session) {
+							session = await openSession(
+								sessionKey,
+								target,
+								ssh,
+								(this.getNodeParameter('sessionIdleTimeout', itemIndex, 300) as number) * 1000,
+							);
+							const cd = await runInSession(session, `cd ${shellQuote(cwd)}`);
+
+							if (cd.code !== 0) {
+								closeSession(sessionKey);
+								throw new NodeOperationError(
+									this.getNode(),
+									`Could not start the session in "${cwd}": ${cd.stderr}`,
+									{ itemIndex },
+								);
+							}
+
+							// Sessions of an execution must not outlive it when it gets cancelled.
+							// There is no hook for the end of an execution, after a normal end
+							// the idle timeout closes them.
+							if (this.getNodeParameter('sessionScope', itemIndex, 'execution') === 'execution') {
+								const prefix = getSessionPrefix.call(this, 'execution');
+								this.onExecutionCancellation?.(() => closeSessions(prefix));
+							}
+						}
+
+						const sessionResult = await runInSession(session, `${formatEnvironment(env)}${command}`, {
+							timeout,
+							abortSignal,
+						});
+
+						result = sessionResult;
+						sessionOutput = {
+							sessionId: this.getNodeParameter('sessionId', itemIndex) as string,
+							sessionClosed: sessionResult.sessionClosed,
+						};
+						if (sessionResult.cwd) {
+							sessionOutput.workingDirectory = sessionResult.cwd;
+						}
+					} else {
+						// Execute command on the remote server
+						result = await execCommand(ssh, `${formatEnvironment(env)}${command}`, {
+							cwd,
+							timeout,
+							killGracePeriod:
+								(this.getNodeParameter('killGracePeriod', itemIndex, 5) as number) * 1000,
+							abortSignal,
+						});
+					}
 					
 					// Format the result
 					const output: IDataObject = {
 						stdout: result.stdout,
 						stderr: result.stderr,
 						exitCode: result.code,
-						success: result.code === 0,
+						success: result.code === 0 && !result.timedOut,
+						timedOut: result.timedOut,
 						command,
 						workingDirectory: cwd,
+						...sessionOutput,
 					};
+
+					// Shape the output for the agent and tell it how much was left out
+					const outputShaping = this.getNodeParameter(
+						'outputShaping',
+						itemIndex,
+						{},
+					) as OutputShapingOptions;
+
+					if (Object.keys(outputShaping).length) {
+						const { text: stdout, ...stdoutInfo } = shapeOutput(result.stdout, outputShaping);
+						const { text: stderr, ...stderrInfo } = shapeOutput(result.stderr, outputShaping);
+
+						output.stdout = stdout;
+						output.stderr = stderr;
+						output.truncated = stdoutInfo.truncated || stderrInfo.truncated;
+						output.outputInfo = { stdout: stdoutInfo, stderr: stderrInfo };
+
+						if (output.truncated) {
+							output.hint =
+								'The output was truncated. Narrow the command, e.g. with grep, head, tail or more specific options, to see the part you need.';
+						}
+					}
 					
 					returnData.push({
 						json: output,
 					});
-				} else if (operation === 'downloadFile') {
-					// Download File
+				} else if (operation === 'readFile') {
+					// Read File as text
+					const remotePath = await resolveHomeDir.call(
+						this,
+						this.getNodeParameter('remotePath', itemIndex) as string,
+						ssh,
+						itemIndex,
+					);
+					const sftp = await getSftp();
+					const size = (await lstat(sftp, remotePath)).size;
+
+					const file = await readRemoteText(sftp, remotePath, {
+						startLine: this.getNodeParameter('startLine', itemIndex, 1) as number,
+						endLine: this.getNodeParameter('endLine', itemIndex, 0) as number,
+						maxBytes: this.getNodeParameter('maxBytes', itemIndex, 0) as number,
+					});
+
+					returnData.push({
+						json: {
+							success: true,
+							operation: 'readFile',
+							remotePath,
+							size,
+							...file,
+							...(file.truncated
+								? {
+										hint: 'The content was cut at the byte limit. Read the following lines with a start line after the returned end line.',
+									}
+								: {}),
+						},
+					});
+				} else if (operation === 'searchFiles') {
+					// Search Files by name and content
+					const remotePath = await resolveHomeDir.call(
+						this,
+						this.getNodeParameter('remotePath', itemIndex) as string,
+						ssh,
+						itemIndex,
+					);
+					const namePattern = this.getNodeParameter('namePattern', itemIndex, '') as string;
+					const contentPattern = this.getNodeParameter('contentPattern', itemIndex, '') as string;
+
+					let contentRegExp: RegExp | undefined;
+					try {
+						contentRegExp = contentPattern
+							? new RegExp(
+									contentPattern,
+									this.getNodeParameter('ignoreCase', itemIndex, false) ? 'i' : '',
+								)
+							: undefined;
+					} catch (error) {
+						throw new NodeOperationError(
+							this.getNode(),
+							`Invalid content pattern: ${error.message}`,
+							{ itemIndex },
+						);
+					}
+
+					const result = await searchRemoteFiles(await getSftp(), remotePath, {
+						namePattern,
+						contentPattern: contentRegExp,
+						maxResults: this.getNodeParameter('maxResults', itemIndex, 100) as number,
+						maxFilesScanned: this.getNodeParameter('maxFilesScanned', itemIndex, 5000) as number,
+					});
+
+					returnData.push({
+						json: {
+							success: true,
+							operation: 'searchFiles',
+							remotePath,
+							namePattern,
+							contentPattern,
+							...result,
+						},
+					});
+				} else if (operation === 'listDirectory') {
+					// List Directory in a compact form
+					const remotePath = await resolveHomeDir.call(
+						this,
+						this.getNodeParameter('remotePath', itemIndex) as string,
+						ssh,
+						itemIndex,
+					);
+					const maxEntries = this.getNodeParameter('maxEntries', itemIndex, 500) as number;
+
+					const entries = await listDirectory(await getSftp(), remotePath, {
+						includeHidden: this.getNodeParameter('includeHidden', itemIndex, false) as boolean,
+					});
+
+					returnData.push({
+						json: {
+							success: true,
+							operation: 'listDirectory',
+							remotePath,
+							count: entries.length,
+							truncated: entries.length > maxEntries,
+							entries: entries
+								.slice(0, maxEntries)
+								.map(({ name, type, size, modifiedAt }) => ({ name, type, size, modifiedAt })),
+						},
+					});
+				} else if (operation === 'downloadFile' && transferMode === 'directory') {
+					// Download Directory
 					const remotePath = this.getNodeParameter('remotePath', itemIndex) as string;
 					const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex) as string;
-					
-					// Resolve home directory in remote path
+					const directoryOutput = this.getNodeParameter('directoryOutput', itemIndex) as string;
+					const maxTotalSize = this.getNodeParameter('maxTotalSize', itemIndex) as number;
+
 					const resolvedRemotePath = await resolveHomeDir.call(this, remotePath, ssh, itemIndex);
-					
-					// Create a temporary file to store the download
-					const binaryFile = await tmpFile({ prefix: 'n8n-ssh-tool-' });
-					
-					try {
-						// Download the file
-						await ssh.getFile(binaryFile.path, resolvedRemotePath);
-						
-						// Create the output with the binary data
-						const fileName = resolvedRemotePath.split('/').pop() || 'file';
-						
-						const newItem: INodeExecutionData = {
+					const sftp = await getSftp();
+
+					const files = await collectRemoteFiles(sftp, resolvedRemotePath, {
+						include: splitList(this.getNodeParameter('include', itemIndex) as string),
+						exclude: splitList(this.getNodeParameter('exclude', itemIndex) as string),
+						maxFiles: this.getNodeParameter('maxFiles', itemIndex) as number,
+						maxTotalSize: maxTotalSize ? maxTotalSize * 1024 * 1024 : undefined,
+					});
+
+					if (directoryOutput === 'archive') {
+						const entries: TarEntry[] = [];
+						for (const file of files) {
+							entries.push({
+								name: file.relativePath,
+								data: await readRemoteFile(sftp, file.path),
+								mode: file.mode,
+								mtime: file.mtime,
+							});
+						}
+
+						const fileName = `${remoteBasename(resolvedRemotePath)}.tar.gz`;
+
+						returnData.push({
 							json: {
 								success: true,
 								operation: 'downloadFile',
 								remotePath: resolvedRemotePath,
 								fileName,
+								files: files.map((file) => file.relativePath),
 							},
-							binary: {},
-						};
-						
-						newItem.binary![binaryPropertyName] = await this.nodeHelpers.copyBinaryFile(
-							binaryFile.path,
-							fileName,
-						);
-						
-						returnData.push(newItem);
-					} finally {
-						await binaryFile.cleanup();
+							binary: {
+								[binaryPropertyName]: await this.helpers.prepareBinaryData(
+									createTarGz(entries),
+									fileName,
+									'application/gzip',
+								),
+							},
+						});
+					} else {
+						for (const file of files) {
+							const { binaryData, ...transfer } = await downloadRemoteFile.call(
+								this,
+								ssh,
+								sftp,
+								file.path,
+								remoteBasename(file.path),
+								getTransferOptions.call(this, itemIndex, connectionData, `Download of ${file.path}`),
+							);
+
+							returnData.push({
+								json: {
+									success: true,
+									operation: 'downloadFile',
+									remotePath: file.path,
+									relativePath: file.relativePath,
+									fileName: remoteBasename(file.path),
+									...transfer,
+								},
+								binary: {
+									[binaryPropertyName]: binaryData,
+								},
+							});
+						}
 					}
+				} else if (operation === 'uploadFile' && transferMode === 'directory') {
+					// Upload Directory
+					const remoteDirectory = this.getNodeParameter('remoteDirectory', itemIndex) as string;
+					const resolvedRemoteDir = await resolveHomeDir.call(this, remoteDirectory, ssh, itemIndex);
+
+					const binaryPropertyNames = getBinaryInputFields.call(this, itemIndex);
+
+					const files = await uploadBinaryTree.call(
+						this,
+						ssh,
+						await getSftp(),
+						itemIndex,
+						binaryPropertyNames,
+						resolvedRemoteDir,
+						'fileName',
+						getTransferOptions.call(
+							this,
+							itemIndex,
+							connectionData,
+							`Upload to ${resolvedRemoteDir}`,
+						),
+					);
+
+					returnData.push({
+						json: {
+							success: true,
+							operation: 'uploadFile',
+							remoteDirectory: resolvedRemoteDir,
+							files,
+						},
+					});
+				} else if (operation === 'downloadFile') {
+					// Download File
+					const remotePath = this.getNodeParameter('remotePath', itemIndex) as string;
+					const binaryPropertyName = this.getNodeParameter('binaryPropertyName', itemIndex) as string;
+					
+					// Resolve home directory in remote path
+					const resolvedRemotePath = await resolveHomeDir.call(this, remotePath, ssh, itemIndex);
+					
+					// Stream the file into the binary data
+					const fileName = resolvedRemotePath.split('/').pop() || 'file';
+					const { binaryData, ...transfer } = await downloadRemoteFile.call(
+						this,
+						ssh,
+						await getSftp(),
+						resolvedRemotePath,
+						fileName,
+						getTransferOptions.call(
+							this,
+							itemIndex,
+							connectionData,
+							`Download of ${resolvedRemotePath}`,
+						),
+					);
+					
+					// Create the output with the binary data
+					const newItem: INodeExecutionData = {
+						json: {
+							success: true,
+							operation: 'downloadFile',
+							remotePath: resolvedRemotePath,
+							fileName,
+							...transfer,
+						},
+						binary: {},
+					};
+					
+					newItem.binary![binaryPropertyName] = binaryData;
+					
+					returnData.push(newItem);
 				} else if (operation === 'uploadFile') {
 					// Upload File
 					const remoteDirectory = this.getNodeParameter('remoteDirectory', itemIndex) as string;
@@ -629,48 +2800,50 @@ export class HadidizAi implements INodeType {
 						resolvedRemoteDir.charAt(resolvedRemoteDir.length - 1) === '/' ? '' : '/'
 					}${remoteFilename}`;
 					
-					// Create temporary file for the upload
-					const binaryFile = await tmpFile({ prefix: 'n8n-ssh-tool-' });
-					
-					try {
-						// Prepare the file content
-						if (uploadSource === 'binaryData') {
-							// From binary data
-							const binaryInputField = this.getNodeParameter('binaryInputField', itemIndex) as string;
-							const binaryData = this.helpers.assertBinaryData(itemIndex, binaryInputField);
-							
-							let uploadData: Buffer | Readable;
-							if (binaryData.id) {
-								uploadData = await this.helpers.getBinaryStream(binaryData.id);
-							} else {
-								uploadData = Buffer.from(binaryData.data, BINARY_ENCODING);
-							}
-							
-							await writeFile(binaryFile.path, uploadData);
+					// Prepare the file content
+					let uploadData: Buffer | Readable;
+					if (uploadSource === 'binaryData') {
+						// From binary data
+						const binaryInputField = this.getNodeParameter('binaryInputField', itemIndex) as string;
+						const binaryData = this.helpers.assertBinaryData(itemIndex, binaryInputField);
+						
+						if (binaryData.id) {
+							uploadData = await this.helpers.getBinaryStream(binaryData.id);
 						} else {
-							// From text content
-							const fileContent = this.getNodeParameter('fileContent', itemIndex) as string;
-							await writeFile(binaryFile.path, fileContent);
+							uploadData = Buffer.from(binaryData.data, BINARY_ENCODING);
 						}
-						
-						// Upload the file
-						await ssh.putFile(binaryFile.path, remotePath);
-						
-						// Return success
-						returnData.push({
-							json: {
-								success: true,
-								operation: 'uploadFile',
-								remotePath,
-							},
-						});
-					} finally {
-						await binaryFile.cleanup();
+					} else {
+						// From text content
+						const fileContent = this.getNodeParameter('fileContent', itemIndex) as string;
+						uploadData = Buffer.from(fileContent);
 					}
+					
+					// Stream the file to the server
+					const transfer = await uploadRemoteFile(
+						ssh,
+						await getSftp(),
+						uploadData,
+						remotePath,
+						getTransferOptions.call(this, itemIndex, connectionData, `Upload of ${remotePath}`),
+					);
+					
+					// Return success
+					returnData.push({
+						json: {
+							success: true,
+							operation: 'uploadFile',
+							remotePath,
+							...transfer,
+						},
+					});
 				}
 			} finally {
-				// Always close the SSH connection
-				ssh.dispose();
+				sftp?.end();
+
+				// Always release the SSH connection, unless an open session owns it
+				if (!sessionKey || getSession(sessionKey)?.ssh !== ssh) {
+					connection.release();
+				}
 			}
 			
 			return [returnData];
@@ -682,12 +2855,13 @@ export class HadidizAi implements INodeType {
 							json: {
 								success: false,
 								error: error.message,
+								errorCode: getErrorCode(error),
 							},
 						},
 					],
 				];
 			}
-			throw error;
+			throw toNodeOperationError(this.getNode(), error, { itemIndex });
 		}
 	}
 } 
\ No newline at end of file
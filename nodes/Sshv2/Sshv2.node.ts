@@ -1,4 +1,3 @@
-import { writeFile } from 'fs/promises';
 import type {
 	ICredentialTestFunctions,
 	ICredentialsDecrypted,
@@ -10,12 +9,64 @@ import type {
 	INodeTypeDescription,
 } from 'n8n-workflow';
 import { BINARY_ENCODING, NodeOperationError } from 'n8n-workflow';
-import type { Config } from 'node-ssh';
 import { NodeSSH } from 'node-ssh';
+import type { SFTPWrapper } from 'ssh2';
 import type { Readable } from 'stream';
-import { file as tmpFile } from 'tmp-promise';
 
-import { formatPrivateKey } from '../../utils/utilities';
+import type { ArchiveFormat } from '../../utils/archive';
+import {
+	detectArchiveFormat,
+	downloadRemoteArchive,
+	uploadAndExtractArchive,
+} from '../../utils/archive';
+import type { CopyMethod } from '../../utils/copy';
+import { copyBetweenHosts } from '../../utils/copy';
+import type { SyncCompareMode, SyncSourceFile } from '../../utils/sync';
+import { collectBinarySyncFiles, collectRemoteSyncFiles, syncDirectory } from '../../utils/sync';
+import {
+	changeMode,
+	formatEntry,
+	listDirectory,
+	lstat,
+	makeDirectory,
+	remoteBasename,
+	removePath,
+	renamePath,
+} from '../../utils/sftp';
+import type { ChecksumAlgorithm, TarEntry, TransferOptions } from '../../utils/transfer';
+import {
+	collectRemoteFiles,
+	createTarGz,
+	downloadRemoteFile,
+	readRemoteFile,
+	reportTransferProgress,
+	uploadBinaryTree,
+	uploadRemoteFile,
+} from '../../utils/transfer';
+import type { HostEntry } from '../../utils/connection';
+import { connect, getConnectionKey, parseHostList } from '../../utils/connection';
+import type { CommandOptions, CommandResult } from '../../utils/exec';
+import { getErrorCode, SshError, toNodeOperationError } from '../../utils/errors';
+import { execCommand, runScript } from '../../utils/exec';
+import type { RetryOptions } from '../../utils/retry';
+import { withRetry } from '../../utils/retry';
+import type { PoolOptions, PooledConnection } from '../../utils/pool';
+import { openConnection } from '../../utils/pool';
+import {
+	formatCommand,
+	formatEnvironment,
+	runWithConcurrency,
+	splitList,
+} from '../../utils/utilities';
+
+interface ItemConnection {
+	connection: Promise<PooledConnection>;
+	sftp?: Promise<SFTPWrapper>;
+	/** Number of attempts it took to connect */
+	attempts: number;
+}
+
+type ItemRetryOptions = RetryOptions & { retryOperations: boolean };
 
 async function resolveHomeDir(
 	this: IExecuteFunctions,
@@ -46,6 +97,428 @@ async function resolveHomeDir(
 	return path;
 }
 
+/**
+ * Return the connection to the server and user of an item. It is opened by the
+ * first item that needs it and then shared with the items that follow.
+ */
+async function getItemConnection(
+	connections: Map<string, ItemConnection>,
+	connectionData: IDataObject,
+	poolOptions?: PoolOptions,
+	retryOptions?: RetryOptions,
+) {
+	const key = getConnectionKey(connectionData);
+	let itemConnection = connections.get(key);
+
+	if (!itemConnection) {
+		const created = { attempts: 1 } as ItemConnection;
+		created.connection = retryOptions
+			? withRetry(async (attempt) => {
+					created.attempts = attempt;
+					return await openConnection(connectionData, poolOptions);
+				}, retryOptions)
+			: openConnection(connectionData, poolOptions);
+
+		itemConnection = created;
+		connections.set(key, itemConnection);
+	}
+
+	const current = itemConnection;
+	const { ssh } = await current.connection;
+	// The SFTP session is only opened once an operation needs it
+	const getSftp = async () => await (current.sftp ??= ssh.requestSFTP());
+
+	return { ssh, getSftp, itemConnection: current };
+}
+
+/**
+ * Stop sharing a connection that broke, so the next item opens a new one
+ */
+async function dropItemConnection(
+	connections: Map<string, ItemConnection>,
+	connectionData: IDataObject,
+	itemConnection: ItemConnection,
+) {
+	const key = getConnectionKey(connectionData);
+
+	if (connections.get(key) === itemConnection) {
+		connections.delete(key);
+		await releaseItemConnection(itemConnection);
+	}
+}
+
+/**
+ * Close the SFTP session of a connection and release it, which returns pooled
+ * connections to the pool and closes the others
+ */
+async function releaseItemConnection(itemConnection: ItemConnection) {
+	const connection = await itemConnection.connection.catch(() => undefined);
+	const sftp = await itemConnection.sftp?.catch(() => undefined);
+
+	sftp?.end();
+	connection?.release();
+}
+
+function getTransferOptions(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	connectionData: IDataObject,
+	label: string,
+): TransferOptions {
+	const options = this.getNodeParameter('options', itemIndex, {}) as IDataObject;
+	const checksum = (options.checksum as string) ?? 'none';
+
+	return {
+		useTempFile: (options.useTempFile as boolean) ?? false,
+		checksum: checksum === 'none' ? undefined : (checksum as ChecksumAlgorithm),
+		resume: (options.resume as boolean) ?? false,
+		atomic: (options.atomicUpload as boolean) ?? false,
+		resumeKey: getConnectionKey(connectionData),
+		onProgress: reportTransferProgress.call(this, label),
+	};
+}
+
+function getRetryOptions(this: IExecuteFunctions): ItemRetryOptions | undefined {
+	const options = this.getNodeParameter('retryOptions', 0, {}) as IDataObject;
+
+	if (!Object.keys(options).length) {
+		return undefined;
+	}
+
+	return {
+		retries: (options.retries as number) ?? 3,
+		initialDelay: ((options.initialDelay as number) ?? 1) * 1000,
+		maxDelay: ((options.maxDelay as number) ?? 30) * 1000,
+		abortSignal: this.getExecutionCancelSignal?.(),
+		retryOperations: (options.retryOperations as boolean) ?? false,
+	};
+}
+
+function getPoolOptions(this: IExecuteFunctions): PoolOptions | undefined {
+	if (!this.getNodeParameter('reuseConnections', 0, false)) {
+		return undefined;
+	}
+
+	const options = this.getNodeParameter('poolOptions', 0, {}) as IDataObject;
+
+	return {
+		idleTimeout: ((options.idleTimeout as number) ?? 300) * 1000,
+		keepaliveInterval: ((options.keepaliveInterval as number) ?? 15) * 1000,
+		maxConnections: (options.maxConnections as number) ?? 5,
+	};
+}
+
+/**
+ * Build the command line of an item, with the environment variables in front
+ */
+function getCommandLine(this: IExecuteFunctions, itemIndex: number): string {
+	const env = this.getNodeParameter('environment.variables', itemIndex, []) as Array<{
+		name: string;
+		value: string;
+	}>;
+	let command: string;
+
+	if (this.getNodeParameter('commandMode', itemIndex, 'command') === 'program') {
+		const commandArguments = this.getNodeParameter(
+			'commandArguments.arguments',
+			itemIndex,
+			[],
+		) as Array<{ value: string }>;
+
+		command = formatCommand(
+			this.getNodeParameter('program', itemIndex) as string,
+			commandArguments.map(({ value }) => value),
+		);
+	} else {
+		command = this.getNodeParameter('command', itemIndex) as string;
+	}
+
+	return `${formatEnvironment(env)}${command}`;
+}
+
+async function getCommandOptions(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	ssh: NodeSSH,
+	connectionData: IDataObject,
+): Promise<CommandOptions> {
+	const commandOptions = this.getNodeParameter('commandOptions', itemIndex, {}) as IDataObject;
+
+	return {
+		cwd: await resolveHomeDir.call(
+			this,
+			this.getNodeParameter('cwd', itemIndex) as string,
+			ssh,
+			itemIndex,
+		),
+		timeout: ((commandOptions.timeout as number) ?? 0) * 1000,
+		killGracePeriod: ((commandOptions.killGracePeriod as number) ?? 5) * 1000,
+		abortSignal: this.getExecutionCancelSignal?.(),
+		pty: commandOptions.pty
+			? {
+					term: (commandOptions.ptyTerm as string) || 'xterm',
+					rows: (commandOptions.ptyRows as number) ?? 24,
+					cols: (commandOptions.ptyCols as number) ?? 80,
+				}
+			: undefined,
+		sudo: commandOptions.sudo as boolean,
+		sudoPassword: (commandOptions.sudoPassword as string) || (connectionData.password as string),
+	};
+}
+
+/**
+ * Parse the acceptable exit codes of the command options, a typo must not
+ * quietly change which commands count as failed
+ */
+function getAcceptableExitCodes(
+	this: IExecuteFunctions,
+	commandOptions: IDataObject,
+	itemIndex: number,
+): number[] {
+	const entries = splitList((commandOptions.acceptableExitCodes as string) ?? '0');
+	const invalid = entries.find((entry) => !/^\d+$/.test(entry));
+
+	if (invalid !== undefined) {
+		throw new NodeOperationError(
+			this.getNode(),
+			`Invalid acceptable exit code "${invalid}", use comma-separated numbers like "0, 1"`,
+			{ itemIndex },
+		);
+	}
+
+	return entries.length ? entries.map(Number) : [0];
+}
+
+/**
+ * Check the exit code of a command against the acceptable exit codes
+ */
+function isAcceptableResult(result: CommandResult, acceptableExitCodes: number[]): boolean {
+	return !result.timedOut && acceptableExitCodes.includes(result.code as number);
+}
+
+/**
+ * Run the command of the first item on every host of the host list. All hosts
+ * use the connection data of the node with only the host and the port
+ * replaced. A host that cannot be reached is reported in its result instead
+ * of stopping the others.
+ */
+async function broadcastCommand(this: IExecuteFunctions): Promise<INodeExecutionData[]> {
+	const items = this.getInputData();
+	const hostSource = this.getNodeParameter('hostSource', 0) as string;
+	const concurrency = this.getNodeParameter('concurrency', 0, 1) as number;
+	const commandOptions = this.getNodeParameter('commandOptions', 0, {}) as IDataObject;
+	const acceptableExitCodes = getAcceptableExitCodes.call(this, commandOptions, 0);
+	const command = getCommandLine.call(this, 0);
+	const connectionData = await getConnectionData.call(this, 0);
+	const poolOptions = getPoolOptions.call(this);
+	const retryOptions = getRetryOptions.call(this);
+	const cancelSignal = this.getExecutionCancelSignal?.();
+
+	// Every host remembers the item it came from
+	const hosts: Array<HostEntry & { itemIndex: number }> = [];
+	const seen = new Set<string>();
+
+	for (let i = 0; i < (hostSource === 'field' ? items.length : 1); i++) {
+		const value =
+			hostSource === 'field'
+				? items[i].json[this.getNodeParameter('hostField', i) as string]
+				: this.getNodeParameter('hostList', i);
+
+		try {
+			for (const host of parseHostList(value)) {
+				const key = `${host.host}:${host.port ?? ''}`;
+				if (!seen.has(key)) {
+					seen.add(key);
+					hosts.push({ ...host, itemIndex: i });
+				}
+			}
+		} catch (error) {
+			throw new NodeOperationError(this.getNode(), error.message, { itemIndex: i });
+		}
+	}
+
+	if (!hosts.length) {
+		throw new NodeOperationError(this.getNode(), 'No hosts to run the command on');
+	}
+
+	const results: INodeExecutionData[] = [];
+	const started = Date.now();
+
+	await runWithConcurrency(hosts.length, concurrency, async (index) => {
+		if (cancelSignal?.aborted) {
+			throw new NodeOperationError(this.getNode(), 'The execution was cancelled');
+		}
+
+		const { host, port = (connectionData.port as number) ?? 22, itemIndex } = hosts[index];
+		const hostData = { ...connectionData, host, port };
+		const start = Date.now();
+		let connection: PooledConnection | undefined;
+		let connectionAttempts = 1;
+		let json: IDataObject;
+
+		try {
+			connection = retryOptions
+				? await withRetry(async (attempt) => {
+						connectionAttempts = attempt;
+						return await openConnection(hostData, poolOptions);
+					}, retryOptions)
+				: await openConnection(hostData, poolOptions);
+			const { ssh } = connection;
+
+			const result = await execCommand(
+				ssh,
+				command,
+				await getCommandOptions.call(this, 0, ssh, hostData),
+			);
+
+			json = {
+				host,
+				port,
+				success: isAcceptableResult(result, acceptableExitCodes),
+				unreachable: false,
+				...result,
+				...(result.timedOut ? { errorCode: 'COMMAND_TIMEOUT' } : {}),
+				duration: Date.now() - start,
+				...(retryOptions ? { connectionAttempts } : {}),
+			};
+		} catch (error) {
+			json = {
+				host,
+				port,
+				success: false,
+				unreachable: !connection,
+				error: error.message,
+				errorCode: getErrorCode(error),
+				duration: Date.now() - start,
+				...(retryOptions ? { connectionAttempts } : {}),
+			};
+		} finally {
+			connection?.release();
+		}
+
+		results[index] = {
+			json,
+			pairedItem: {
+				item: itemIndex,
+			},
+		};
+	});
+
+	if (this.getNodeParameter('addSummary', 0, false)) {
+		const unreachable = results.filter(({ json }) => json.unreachable).length;
+		const succeeded = results.filter(({ json }) => json.success).length;
+
+		results.push({
+			json: {
+				summary: true,
+				command,
+				total: results.length,
+				succeeded,
+				failed: results.length - succeeded - unreachable,
+				unreachable,
+				duration: Date.now() - started,
+			},
+			pairedItem: items.map((_item, item) => ({ item })),
+		});
+	}
+
+	return results;
+}
+
+/**
+ * Return the connection data of the destination of a copy, which is either
+ * the one of the source, optionally for another host, or its own parameters
+ */
+function getDestinationConnectionData(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	sourceData: IDataObject,
+): IDataObject {
+	const destinationConnection = this.getNodeParameter('destinationConnection', itemIndex) as string;
+	const destinationHost = (this.getNodeParameter('destinationHost', itemIndex, '') as string).trim();
+
+	const fingerprints = (
+		this.getNodeParameter('destinationHostKeyFingerprints', itemIndex, '') as string
+	).trim();
+
+	if (destinationConnection === 'source') {
+		if (!destinationHost) return sourceData;
+
+		// The jump hosts and pinned fingerprints of the source belong to its own
+		// host, known hosts can list the destination as well
+		const [{ host, port }] = parseHostList(destinationHost);
+		const data: IDataObject = { ...sourceData, host, port: port ?? sourceData.port, jumpHosts: [] };
+
+		if (fingerprints) {
+			data.hostKeyPolicy = 'fingerprint';
+			data.hostKeyFingerprints = fingerprints;
+		} else if (sourceData.hostKeyPolicy === 'fingerprint') {
+			throw new NodeOperationError(
+				this.getNode(),
+				`The pinned host key fingerprints of the source do not apply to the destination ${host}. Set the destination host key fingerprints.`,
+				{ itemIndex },
+			);
+		}
+
+		return data;
+	}
+	const data: IDataObject = {
+		host: destinationHost,
+		port: this.getNodeParameter('destinationPort', itemIndex, 22) as number,
+		username: this.getNodeParameter('destinationUsername', itemIndex) as string,
+		hostKeyPolicy: fingerprints ? 'fingerprint' : 'any',
+		hostKeyFingerprints: fingerprints,
+	};
+
+	if (this.getNodeParameter('destinationAuthentication', itemIndex) === 'password') {
+		data.password = this.getNodeParameter('destinationPassword', itemIndex) as string;
+	} else {
+		data.privateKey = this.getNodeParameter('destinationPrivateKey', itemIndex) as string;
+		data.passphrase = this.getNodeParameter('destinationPassphrase', itemIndex, '') as string;
+	}
+
+	return data;
+}
+
+async function getConnectionData(this: IExecuteFunctions, itemIndex: number): Promise<IDataObject> {
+	const connectionType = this.getNodeParameter('connectionType', itemIndex) as string;
+	const authentication = this.getNodeParameter('authentication', itemIndex) as string;
+
+	// The built-in SSH credentials have no host key or jump host settings, so
+	// these parameters apply to both connection types
+	const hostOptions: IDataObject = {
+		hostKeyPolicy: this.getNodeParameter('hostKeyPolicy', itemIndex, 'any') as string,
+		hostKeyFingerprints: this.getNodeParameter('hostKeyFingerprints', itemIndex, '') as string,
+		knownHosts: this.getNodeParameter('knownHosts', itemIndex, '') as string,
+		jumpHosts: this.getNodeParameter('jumpHosts.hosts', itemIndex, []) as IDataObject[],
+	};
+
+	if (connectionType === 'credentials') {
+		// Use the existing credential based connection
+		const credentials = await this.getCredentials(
+			authentication === 'password' ? 'sshPassword' : 'sshPrivateKey',
+		);
+		return { ...credentials, ...hostOptions };
+	}
+
+	// Use dynamic parameters for connection
+	const data: IDataObject = {
+		host: this.getNodeParameter('host', itemIndex) as string,
+		port: this.getNodeParameter('port', itemIndex) as number,
+		username: this.getNodeParameter('username', itemIndex) as string,
+		...hostOptions,
+	};
+
+	if (authentication === 'password') {
+		data.password = this.getNodeParameter('password', itemIndex) as string;
+	} else {
+		data.privateKey = this.getNodeParameter('privateKey', itemIndex) as string;
+		data.passphrase = this.getNodeParameter('passphrase', itemIndex, '') as string;
+	}
+
+	return data;
+}
+
 export class Sshv2 implements INodeType {
 	description: INodeTypeDescription = {
 		displayName: 'SSH V2',
@@ -61,7 +534,8 @@ export class Sshv2 implements INodeType {
 			color: '#000000',
 		},
 		inputs: ['main'],
-		outputs: ['main'],
+		// Execute can route failed commands to a second output
+		outputs: `={{$parameter["splitOutputs"] ? [{ type: "main", displayName: "Success" }, { type: "main", displayName: "Failure" }] : ["main"]}}`,
 		credentials: [
 			{
 				name: 'sshPassword',
@@ -133,6 +607,10 @@ export class Sshv2 implements INodeType {
 					show: {
 						connectionType: ['parameters'],
 					},
+					// A broadcast runs on the hosts of its own list instead
+					hide: {
+						operation: ['broadcast'],
+					},
 				},
 				description: 'Hostname or IP address of the SSH server',
 			},
@@ -213,6 +691,259 @@ export class Sshv2 implements INodeType {
 				},
 				description: 'Passphrase for the private key, if required',
 			},
+			{
+				displayName: 'Host Key Verification',
+				name: 'hostKeyPolicy',
+				type: 'options',
+				options: [
+					{
+						name: 'Accept Any Host Key',
+						value: 'any',
+						description: 'Trust whatever key the server presents',
+					},
+					{
+						name: 'Pinned Fingerprints',
+						value: 'fingerprint',
+						description: 'Only accept host keys with one of the given SHA256 fingerprints',
+					},
+					{
+						name: 'Known Hosts',
+						value: 'knownHosts',
+						description: 'Only accept host keys listed in the given known_hosts content',
+					},
+				],
+				default: 'any',
+			},
+			{
+				displayName: 'Host Key Fingerprints',
+				name: 'hostKeyFingerprints',
+				type: 'string',
+				default: '',
+				placeholder: 'SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8',
+				displayOptions: {
+					show: {
+						hostKeyPolicy: ['fingerprint'],
+					},
+				},
+				description: 'One or more SHA256 fingerprints separated by commas or new lines',
+			},
+			{
+				displayName: 'Known Hosts',
+				name: 'knownHosts',
+				type: 'string',
+				default: '',
+				typeOptions: {
+					rows: 4,
+				},
+				placeholder: 'example.com ssh-ed25519 AAAAC3NzaC1lZDI1NTE5AAAA...',
+				displayOptions: {
+					show: {
+						hostKeyPolicy: ['knownHosts'],
+					},
+				},
+				description: 'Content of a known_hosts file, e.g. the output of ssh-keyscan',
+			},
+			{
+				displayName: 'Jump Hosts',
+				name: 'jumpHosts',
+				type: 'fixedCollection',
+				placeholder: 'Add Jump Host',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				default: {},
+				description:
+					'Hosts to tunnel the connection through, in order, like OpenSSH ProxyJump. The first one is dialed directly.',
+				options: [
+					{
+						displayName: 'Jump Host',
+						name: 'hosts',
+						values: [
+							{
+								displayName: 'Host',
+								name: 'host',
+								type: 'string',
+								default: '',
+								placeholder: 'bastion.example.com',
+								description: 'Hostname or IP address of the jump host',
+							},
+							{
+								displayName: 'Port',
+								name: 'port',
+								type: 'number',
+								default: 22,
+								description: 'Port number of the jump host',
+							},
+							{
+								displayName: 'Username',
+								name: 'username',
+								type: 'string',
+								default: '',
+								description: 'Username to use for authentication on the jump host',
+							},
+							{
+								displayName: 'Password',
+								name: 'password',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									password: true,
+								},
+								description: 'Password to use for authentication, leave empty when using a private key',
+							},
+							{
+								displayName: 'Private Key',
+								name: 'privateKey',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									rows: 4,
+									password: true,
+								},
+								description: 'Private key to use for authentication, takes precedence over the password',
+							},
+							{
+								displayName: 'Passphrase',
+								name: 'passphrase',
+								type: 'string',
+								default: '',
+								typeOptions: {
+									password: true,
+								},
+								description: 'Passphrase for the private key, if required',
+							},
+							{
+								displayName: 'Host Key Fingerprints',
+								name: 'hostKeyFingerprints',
+								type: 'string',
+								default: '',
+								description:
+									'SHA256 fingerprints the jump host has to present. Leave empty to accept any host key.',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Concurrency',
+				name: 'concurrency',
+				type: 'number',
+				noDataExpression: true,
+				typeOptions: {
+					minValue: 1,
+				},
+				default: 1,
+				description:
+					'Maximum number of items, or hosts of a broadcast, processed at the same time. Items for the same host and user share one connection.',
+			},
+			{
+				displayName: 'Reuse Connections',
+				name: 'reuseConnections',
+				type: 'boolean',
+				noDataExpression: true,
+				default: false,
+				description:
+					'Whether to keep connections open in a pool after the node ran and reuse them in later runs, which saves the connection handshake',
+			},
+			{
+				displayName: 'Connection Pool Options',
+				name: 'poolOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				displayOptions: {
+					show: {
+						reuseConnections: [true],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Idle Timeout (Seconds)',
+						name: 'idleTimeout',
+						type: 'number',
+						default: 300,
+						typeOptions: {
+							minValue: 1,
+						},
+						description: 'How long an unused connection is kept open',
+					},
+					{
+						displayName: 'Keepalive Interval (Seconds)',
+						name: 'keepaliveInterval',
+						type: 'number',
+						default: 15,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'How often a pooled connection sends keepalive packets, so broken connections are noticed',
+					},
+					{
+						displayName: 'Max Connections per Host',
+						name: 'maxConnections',
+						type: 'number',
+						default: 5,
+						typeOptions: {
+							minValue: 1,
+						},
+						description:
+							'Most connections open at the same time to one host with the same credential. Further runs wait for a free one.',
+					},
+				],
+			},
+			{
+				displayName: 'Retry Options',
+				name: 'retryOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				default: {},
+				description:
+					'Retry transient failures like connections refused while a server restarts. Failed authentication and host key mismatches are not retried.',
+				options: [
+					{
+						displayName: 'Initial Delay (Seconds)',
+						name: 'initialDelay',
+						type: 'number',
+						default: 1,
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 1,
+						},
+						description:
+							'How long to wait before the first retry. Every further retry waits twice as long, with a random jitter.',
+					},
+					{
+						displayName: 'Max Delay (Seconds)',
+						name: 'maxDelay',
+						type: 'number',
+						default: 30,
+						typeOptions: {
+							minValue: 0,
+							numberPrecision: 1,
+						},
+						description: 'Longest wait between two attempts',
+					},
+					{
+						displayName: 'Retries',
+						name: 'retries',
+						type: 'number',
+						default: 3,
+						typeOptions: {
+							minValue: 0,
+						},
+						description: 'How often to retry opening a connection after a transient failure',
+					},
+					{
+						displayName: 'Retry Read Operations',
+						name: 'retryOperations',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to also retry downloads, listings and file info, which are safe to repeat, on a new connection when the connection broke',
+					},
+				],
+			},
 			{
 				displayName: 'Resource',
 				name: 'resource',
@@ -227,6 +958,10 @@ export class Sshv2 implements INodeType {
 						name: 'File',
 						value: 'file',
 					},
+					{
+						name: 'Script',
+						value: 'script',
+					},
 				],
 				default: 'command',
 			},
@@ -241,6 +976,12 @@ export class Sshv2 implements INodeType {
 					},
 				},
 				options: [
+					{
+						name: 'Broadcast',
+						value: 'broadcast',
+						description: 'Execute the same command on a list of hosts',
+						action: 'Execute a command on multiple hosts',
+					},
 					{
 						name: 'Execute',
 						value: 'execute',
@@ -251,117 +992,1492 @@ export class Sshv2 implements INodeType {
 				default: 'execute',
 			},
 			{
-				displayName: 'Command',
-				name: 'command',
+				displayName: 'Hosts From',
+				name: 'hostSource',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['command'],
+						operation: ['broadcast'],
+					},
+				},
+				options: [
+					{
+						name: 'Host List',
+						value: 'list',
+						description: 'Run the command on the hosts of a list',
+					},
+					{
+						name: 'Input Field',
+						value: 'field',
+						description: 'Run the command on the hosts found in a field of the input items',
+					},
+				],
+				default: 'list',
+			},
+			{
+				displayName: 'Hosts',
+				name: 'hostList',
 				type: 'string',
 				displayOptions: {
 					show: {
 						resource: ['command'],
-						operation: ['execute'],
+						operation: ['broadcast'],
+						hostSource: ['list'],
 					},
 				},
 				default: '',
-				description: 'The command to be executed on a remote device',
+				required: true,
+				placeholder: 'web1.example.com, web2.example.com:2222',
+				description:
+					'Comma-separated hosts or a JSON array of hosts, each with an optional port. All of them use the same credential, whose own host is not used. Hosts without a port use the port of the connection.',
 			},
 			{
-				displayName: 'Working Directory',
-				name: 'cwd',
+				displayName: 'Host Field',
+				name: 'hostField',
 				type: 'string',
 				displayOptions: {
 					show: {
 						resource: ['command'],
-						operation: ['execute'],
+						operation: ['broadcast'],
+						hostSource: ['field'],
 					},
 				},
-				default: '/',
+				default: 'host',
 				required: true,
+				description:
+					'Name of the field of the input items that holds a host or a list of hosts. All of them use the same credential, whose own host is not used. Hosts without a port use the port of the connection.',
 			},
 			{
-				displayName: 'Operation',
-				name: 'operation',
+				displayName: 'Add Summary Item',
+				name: 'addSummary',
+				type: 'boolean',
+				displayOptions: {
+					show: {
+						resource: ['command'],
+						operation: ['broadcast'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to add an item after the host results that counts the hosts that succeeded, failed or were unreachable',
+			},
+			{
+				displayName: 'Command Type',
+				name: 'commandMode',
 				type: 'options',
-				noDataExpression: true,
 				displayOptions: {
 					show: {
-						resource: ['file'],
+						resource: ['command'],
+						operation: ['broadcast', 'execute'],
 					},
 				},
 				options: [
 					{
-						name: 'Download',
-						value: 'download',
-						description: 'Download a file',
-						action: 'Download a file',
+						name: 'Shell Command',
+						value: 'command',
+						description: 'Run a command line as typed, including pipes and other shell syntax',
 					},
 					{
-						name: 'Upload',
-						value: 'upload',
+						name: 'Program With Arguments',
+						value: 'program',
+						description:
+							'Run a single program with arguments that are quoted by the node, so values from item data cannot inject shell syntax',
+					},
+				],
+				default: 'command',
+			},
+			{
+				displayName: 'Command',
+				name: 'command',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['command'],
+						operation: ['broadcast', 'execute'],
+						commandMode: ['command'],
+					},
+				},
+				default: '',
+				description: 'The command to be executed on a remote device',
+			},
+			{
+				displayName: 'Program',
+				name: 'program',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['command'],
+						operation: ['broadcast', 'execute'],
+						commandMode: ['program'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'rm',
+				description: 'The name or path of the program to run',
+			},
+			{
+				displayName: 'Arguments',
+				name: 'commandArguments',
+				type: 'fixedCollection',
+				placeholder: 'Add Argument',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['command'],
+						operation: ['broadcast', 'execute'],
+						commandMode: ['program'],
+					},
+				},
+				default: {},
+				description: 'Arguments passed to the program, each one quoted as a single word',
+				options: [
+					{
+						displayName: 'Argument',
+						name: 'arguments',
+						values: [
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['script'],
+					},
+				},
+				options: [
+					{
+						name: 'Run',
+						value: 'run',
+						description: 'Upload a script to the remote device and run it',
+						action: 'Run a script',
+					},
+				],
+				default: 'run',
+			},
+			{
+				displayName: 'Script',
+				name: 'script',
+				type: 'string',
+				typeOptions: {
+					rows: 10,
+				},
+				displayOptions: {
+					show: {
+						resource: ['script'],
+						operation: ['run'],
+					},
+				},
+				default: '',
+				placeholder: '#!/bin/bash\nset -e\necho "Hello from $(hostname)"',
+				description: 'The script to run on the remote device',
+			},
+			{
+				displayName: 'Interpreter',
+				name: 'interpreter',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['script'],
+						operation: ['run'],
+					},
+				},
+				options: [
+					{
+						name: 'Bash',
+						value: 'bash',
+					},
+					{
+						name: 'Custom',
+						value: 'custom',
+					},
+					{
+						name: 'Node.js',
+						value: 'node',
+					},
+					{
+						name: 'Python 3',
+						value: 'python3',
+					},
+					{
+						name: 'Sh',
+						value: 'sh',
+					},
+				],
+				default: 'bash',
+				description: 'The program the script is passed to',
+			},
+			{
+				displayName: 'Custom Interpreter',
+				name: 'customInterpreter',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['script'],
+						operation: ['run'],
+						interpreter: ['custom'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/usr/bin/env ruby',
+				description: 'The command the path of the script file is appended to',
+			},
+			{
+				displayName: 'Arguments',
+				name: 'scriptArguments',
+				type: 'fixedCollection',
+				placeholder: 'Add Argument',
+				typeOptions: {
+					multipleValues: true,
+					sortable: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['script'],
+						operation: ['run'],
+					},
+				},
+				default: {},
+				description: 'Positional arguments passed to the script, each one quoted as a single word',
+				options: [
+					{
+						displayName: 'Argument',
+						name: 'arguments',
+						values: [
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Environment Variables',
+				name: 'environment',
+				type: 'fixedCollection',
+				placeholder: 'Add Variable',
+				typeOptions: {
+					multipleValues: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['command', 'script'],
+						operation: ['broadcast', 'execute', 'run'],
+					},
+				},
+				default: {},
+				description: 'Environment variables exported before the command runs, with quoted values',
+				options: [
+					{
+						displayName: 'Variable',
+						name: 'variables',
+						values: [
+							{
+								displayName: 'Name',
+								name: 'name',
+								type: 'string',
+								default: '',
+								placeholder: 'APP_ENV',
+							},
+							{
+								displayName: 'Value',
+								name: 'value',
+								type: 'string',
+								default: '',
+							},
+						],
+					},
+				],
+			},
+			{
+				displayName: 'Working Directory',
+				name: 'cwd',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['command', 'script'],
+						operation: ['broadcast', 'execute', 'run'],
+					},
+				},
+				default: '/',
+				required: true,
+			},
+			{
+				displayName: 'Split Success and Failure Outputs',
+				name: 'splitOutputs',
+				type: 'boolean',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['command', 'script'],
+						operation: ['execute', 'run'],
+					},
+				},
+				default: false,
+				description:
+					'Whether to send commands that exit with an unacceptable exit code or time out to a separate "Failure" output',
+			},
+			{
+				displayName: 'Options',
+				name: 'commandOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				displayOptions: {
+					show: {
+						resource: ['command', 'script'],
+						operation: ['broadcast', 'execute', 'run'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Acceptable Exit Codes',
+						name: 'acceptableExitCodes',
+						type: 'string',
+						default: '0',
+						placeholder: '0, 1',
+						description:
+							'Comma-separated exit codes that count as success. Others are sent to the "Failure" output or fail the node.',
+					},
+					{
+						displayName: 'Allocate PTY',
+						name: 'pty',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to run the command in a pseudo terminal, for commands that require a TTY. Stderr is merged into stdout then.',
+					},
+					{
+						displayName: 'Fail on Unacceptable Exit Code',
+						name: 'failOnExitCode',
+						type: 'boolean',
+						displayOptions: {
+							show: {
+								'/operation': ['execute', 'run'],
+							},
+						},
+						default: false,
+						description:
+							'Whether to treat a command that exits with an unacceptable exit code or times out as an error',
+					},
+					{
+						displayName: 'Kill Grace Period (Seconds)',
+						name: 'killGracePeriod',
+						type: 'number',
+						default: 5,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'How long to wait after sending TERM to a timed out command before sending KILL',
+					},
+					{
+						displayName: 'Run as Sudo',
+						name: 'sudo',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to run the command through sudo and answer its password prompt',
+					},
+					{
+						displayName: 'Sudo Password',
+						name: 'sudoPassword',
+						type: 'string',
+						typeOptions: {
+							password: true,
+						},
+						default: '',
+						description:
+							'Password to answer the sudo prompt with. Leave empty to use the password of the connection.',
+					},
+					{
+						displayName: 'Terminal Columns',
+						name: 'ptyCols',
+						type: 'number',
+						default: 80,
+						description: 'Width of the pseudo terminal, used when a PTY is allocated',
+					},
+					{
+						displayName: 'Terminal Rows',
+						name: 'ptyRows',
+						type: 'number',
+						default: 24,
+						description: 'Height of the pseudo terminal, used when a PTY is allocated',
+					},
+					{
+						displayName: 'Terminal Type',
+						name: 'ptyTerm',
+						type: 'string',
+						default: 'xterm',
+						description: 'Value of TERM for the pseudo terminal, used when a PTY is allocated',
+					},
+					{
+						displayName: 'Timeout (Seconds)',
+						name: 'timeout',
+						type: 'number',
+						default: 60,
+						typeOptions: {
+							minValue: 0,
+						},
+						description:
+							'Terminate the command after this many seconds and return the output received so far. 0 waits forever.',
+					},
+				],
+			},
+			{
+				displayName: 'Operation',
+				name: 'operation',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['file'],
+					},
+				},
+				options: [
+					{
+						name: 'Change Permissions',
+						value: 'chmod',
+						description: 'Change the permissions of a file or directory',
+						action: 'Change permissions of a file or directory',
+					},
+					{
+						name: 'Copy Between Hosts',
+						value: 'copyBetweenHosts',
+						description: 'Copy a file from this server to another one',
+						action: 'Copy a file between hosts',
+					},
+					{
+						name: 'Create Directory',
+						value: 'createDirectory',
+						description: 'Create a directory',
+						action: 'Create a directory',
+					},
+					{
+						name: 'Delete',
+						value: 'delete',
+						description: 'Delete a file or directory',
+						action: 'Delete a file or directory',
+					},
+					{
+						name: 'Download',
+						value: 'download',
+						description: 'Download a file',
+						action: 'Download a file',
+					},
+					{
+						name: 'Download as Archive',
+						value: 'downloadArchive',
+						description: 'Pack a file or directory into an archive on the server and download it',
+						action: 'Download a file or directory as archive',
+					},
+					{
+						name: 'Get Info',
+						value: 'stat',
+						description: 'Get the metadata of a file or directory',
+						action: 'Get info of a file or directory',
+					},
+					{
+						name: 'List Directory',
+						value: 'list',
+						description: 'List the contents of a directory',
+						action: 'List the contents of a directory',
+					},
+					{
+						name: 'Rename',
+						value: 'rename',
+						description: 'Rename or move a file or directory',
+						action: 'Rename or move a file or directory',
+					},
+					{
+						name: 'Sync Directory',
+						value: 'syncDirectory',
+						description: 'Upload only the new and changed files to a directory, like rsync',
+						action: 'Sync a directory',
+					},
+					{
+						name: 'Upload',
+						value: 'upload',
 						description: 'Upload a file',
 						action: 'Upload a file',
 					},
-				],
-				default: 'upload',
+					{
+						name: 'Upload and Extract',
+						value: 'uploadExtract',
+						description: 'Upload an archive and extract it into a directory',
+						action: 'Upload and extract an archive',
+					},
+				],
+				default: 'upload',
+			},
+			{
+				displayName: 'Path',
+				name: 'path',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['chmod', 'createDirectory', 'delete', 'list', 'stat'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/home/user/logs',
+				description: 'The remote path to operate on',
+			},
+			{
+				displayName: 'Old Path',
+				name: 'path',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['rename'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/home/user/report.txt',
+				description: 'The current path of the file or directory',
+			},
+			{
+				displayName: 'New Path',
+				name: 'newPath',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['rename'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/home/user/archive/report.txt',
+				description: 'The path to move the file or directory to',
+			},
+			{
+				displayName: 'Mode',
+				name: 'mode',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['chmod'],
+					},
+				},
+				default: '644',
+				required: true,
+				placeholder: '755',
+				description: 'The new permissions in octal notation',
+			},
+			{
+				displayName: 'Options',
+				name: 'fileSystemOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['chmod', 'createDirectory', 'delete', 'list', 'rename'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Create Parent Directories',
+						name: 'createParentDirectories',
+						type: 'boolean',
+						default: true,
+						displayOptions: {
+							show: {
+								'/operation': ['createDirectory'],
+							},
+						},
+						description: 'Whether to create missing parent directories as well',
+					},
+					{
+						displayName: 'Include Hidden Entries',
+						name: 'includeHidden',
+						type: 'boolean',
+						default: true,
+						displayOptions: {
+							show: {
+								'/operation': ['list'],
+							},
+						},
+						description: 'Whether to return entries whose name starts with a dot',
+					},
+					{
+						displayName: 'Overwrite',
+						name: 'overwrite',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/operation': ['rename'],
+							},
+						},
+						description:
+							'Whether to replace an existing file at the new path. Requires the OpenSSH POSIX rename extension on the server.',
+					},
+					{
+						displayName: 'Recursive',
+						name: 'recursive',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/operation': ['chmod', 'delete', 'list'],
+							},
+						},
+						description:
+							'Whether to apply the operation to the contents of a directory as well',
+					},
+				],
+			},
+			{
+				displayName: 'Transfer Mode',
+				name: 'transferMode',
+				type: 'options',
+				noDataExpression: true,
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['upload', 'download'],
+					},
+				},
+				options: [
+					{
+						name: 'Single File',
+						value: 'file',
+						description: 'Transfer exactly one file',
+					},
+					{
+						name: 'Directory',
+						value: 'directory',
+						description: 'Transfer a whole directory tree',
+					},
+				],
+				default: 'file',
+			},
+			{
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['upload'],
+						resource: ['file'],
+						transferMode: ['file'],
+					},
+				},
+				placeholder: '',
+				hint: 'The name of the input binary field containing the file to be uploaded',
+			},
+			{
+				displayName: 'Files to Upload',
+				name: 'binarySource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						operation: ['upload'],
+						resource: ['file'],
+						transferMode: ['directory'],
+					},
+				},
+				options: [
+					{
+						name: 'All Binary Fields',
+						value: 'all',
+						description: 'Upload every binary field of the item',
+					},
+					{
+						name: 'Selected Binary Fields',
+						value: 'selected',
+						description: 'Upload the binary fields listed by name',
+					},
+				],
+				default: 'all',
+			},
+			{
+				displayName: 'Input Binary Fields',
+				name: 'binaryPropertyNames',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						operation: ['upload'],
+						resource: ['file'],
+						transferMode: ['directory'],
+						binarySource: ['selected'],
+					},
+				},
+				placeholder: 'data, assets',
+				hint: 'Comma-separated names of the input binary fields containing the files to be uploaded',
+			},
+			{
+				displayName: 'Target Directory',
+				name: 'path',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['upload'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/home/user',
+				description:
+					'The directory to upload the file to. The name of the file does not need to be specified, it\'s taken from the binary data file name. To override this behavior, set the parameter "File Name" under options.',
+			},
+			{
+				displayName: 'Path',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['download'],
+						transferMode: ['file'],
+					},
+				},
+				name: 'path',
+				type: 'string',
+				default: '',
+				placeholder: '/home/user/invoice.txt',
+				description:
+					'The file path of the file to download. Has to contain the full path including file name.',
+				required: true,
+			},
+			{
+				displayName: 'Directory',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['download'],
+						transferMode: ['directory'],
+					},
+				},
+				name: 'path',
+				type: 'string',
+				default: '',
+				placeholder: '/var/log/app',
+				description: 'The remote directory to download',
+				required: true,
+			},
+			{
+				displayName: 'Output',
+				name: 'directoryOutput',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['download'],
+						transferMode: ['directory'],
+					},
+				},
+				options: [
+					{
+						name: 'One Item per File',
+						value: 'files',
+					},
+					{
+						name: 'Single Archive (.Tar.gz)',
+						value: 'archive',
+					},
+				],
+				default: 'files',
+			},
+			{
+				displayName: 'File Property',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['download'],
+					},
+				},
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				description: 'Object property name which holds binary data',
+				required: true,
+			},
+			{
+				displayName: 'Sync From',
+				name: 'syncSource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['syncDirectory'],
+					},
+				},
+				options: [
+					{
+						name: 'Input Binaries',
+						value: 'binary',
+						description: 'The binary fields of the item',
+					},
+					{
+						name: 'Remote Directory',
+						value: 'remote',
+						description: 'Another directory on the server',
+					},
+				],
+				default: 'binary',
+			},
+			{
+				displayName: 'Files to Sync',
+				name: 'binarySource',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['syncDirectory'],
+						syncSource: ['binary'],
+					},
+				},
+				options: [
+					{
+						name: 'All Binary Fields',
+						value: 'all',
+						description: 'Sync every binary field of the item',
+					},
+					{
+						name: 'Selected Binary Fields',
+						value: 'selected',
+						description: 'Sync the binary fields listed by name',
+					},
+				],
+				default: 'all',
+			},
+			{
+				displayName: 'Input Binary Fields',
+				name: 'binaryPropertyNames',
+				type: 'string',
+				default: 'data',
+				required: true,
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['syncDirectory'],
+						syncSource: ['binary'],
+						binarySource: ['selected'],
+					},
+				},
+				placeholder: 'data, assets',
+				hint: 'Comma-separated names of the input binary fields containing the files to be synced',
+			},
+			{
+				displayName: 'Source Directory',
+				name: 'sourceDirectory',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['syncDirectory'],
+						syncSource: ['remote'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/srv/releases/current',
+				description: 'The remote directory whose files are synced to the target directory',
+			},
+			{
+				displayName: 'Target Directory',
+				name: 'path',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['syncDirectory'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/etc/app',
+				description: 'The remote directory to bring in line with the source',
+			},
+			{
+				displayName: 'Compare By',
+				name: 'compareBy',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['syncDirectory'],
+					},
+				},
+				options: [
+					{
+						name: 'Checksum',
+						value: 'checksum',
+						description: 'Compare the SHA-256 checksums of files with the same size',
+					},
+					{
+						name: 'Size and Modification Time',
+						value: 'sizeAndMtime',
+						description:
+							'Compare the size and modification time like rsync does by default. Input binaries have no modification time, so those of the same size are compared by checksum.',
+					},
+				],
+				default: 'checksum',
+			},
+			{
+				displayName: 'Options',
+				name: 'syncOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['syncDirectory'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Delete Extraneous Files',
+						name: 'deleteExtraneous',
+						type: 'boolean',
+						default: false,
+						description:
+							'Whether to delete files in the target directory that the source does not have',
+					},
+					{
+						displayName: 'Dry Run',
+						name: 'dryRun',
+						type: 'boolean',
+						default: false,
+						description: 'Whether to only return the planned changes without making them',
+					},
+					{
+						displayName: 'Exclude',
+						name: 'exclude',
+						type: 'string',
+						default: '',
+						placeholder: '.env, cache/**',
+						description:
+							'Comma-separated glob patterns of files that are neither synced nor deleted. Patterns without a slash match the file name.',
+					},
+					{
+						displayName: 'Relative Path From',
+						name: 'relativePathFrom',
+						type: 'options',
+						options: [
+							{
+								name: 'File Name',
+								value: 'fileName',
+								description: 'The binary file name, which may contain sub directories like "css/site.css"',
+							},
+							{
+								name: 'Binary Field Name',
+								value: 'propertyName',
+								description: 'The name of the binary field, e.g. "css/site.css"',
+							},
+						],
+						default: 'fileName',
+						displayOptions: {
+							show: {
+								'/syncSource': ['binary'],
+							},
+						},
+						description: 'Where the path of each file below the target directory is taken from',
+					},
+				],
+			},
+			{
+				displayName: 'Source Path',
+				name: 'path',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: '/var/backups/db.tar.gz',
+				description: 'The file to copy, on the server of the connection above',
+			},
+			{
+				displayName: 'Destination Connection',
+				name: 'destinationConnection',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+					},
+				},
+				options: [
+					{
+						name: 'Same as Source',
+						value: 'source',
+						description:
+							'Use the connection of the source, optionally for another host. n8n allows one credential of each type per node.',
+					},
+					{
+						name: 'Dynamic Parameters',
+						value: 'parameters',
+						description: 'Connect to the destination with its own parameters',
+					},
+				],
+				default: 'source',
+			},
+			{
+				displayName: 'Destination Host',
+				name: 'destinationHost',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['source'],
+					},
+				},
+				default: '',
+				placeholder: 'backup.example.com:2222',
+				description:
+					'Host of the destination, optionally with a port. Leave empty to copy on the source server.',
+			},
+			{
+				displayName: 'Destination Host',
+				name: 'destinationHost',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['parameters'],
+					},
+				},
+				default: '',
+				required: true,
+				placeholder: 'backup.example.com',
+				description: 'Hostname or IP address of the destination server',
+			},
+			{
+				displayName: 'Destination Port',
+				name: 'destinationPort',
+				type: 'number',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['parameters'],
+					},
+				},
+				default: 22,
+				description: 'Port number of the destination server',
+			},
+			{
+				displayName: 'Destination Username',
+				name: 'destinationUsername',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['parameters'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Username to use for the destination',
+			},
+			{
+				displayName: 'Destination Authentication',
+				name: 'destinationAuthentication',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['parameters'],
+					},
+				},
+				options: [
+					{
+						name: 'Password',
+						value: 'password',
+					},
+					{
+						name: 'Private Key',
+						value: 'privateKey',
+					},
+				],
+				default: 'password',
+			},
+			{
+				displayName: 'Destination Password',
+				name: 'destinationPassword',
+				type: 'string',
+				typeOptions: {
+					password: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['parameters'],
+						destinationAuthentication: ['password'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Password to use for the destination',
+			},
+			{
+				displayName: 'Destination Private Key',
+				name: 'destinationPrivateKey',
+				type: 'string',
+				typeOptions: {
+					rows: 4,
+					password: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['parameters'],
+						destinationAuthentication: ['privateKey'],
+					},
+				},
+				default: '',
+				required: true,
+				description: 'Private key to use for the destination',
+			},
+			{
+				displayName: 'Destination Passphrase',
+				name: 'destinationPassphrase',
+				type: 'string',
+				typeOptions: {
+					password: true,
+				},
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+						destinationConnection: ['parameters'],
+						destinationAuthentication: ['privateKey'],
+					},
+				},
+				default: '',
+				description: 'Passphrase for the private key of the destination, if required',
 			},
 			{
-				displayName: 'Input Binary Field',
-				name: 'binaryPropertyName',
+				displayName: 'Destination Host Key Fingerprints',
+				name: 'destinationHostKeyFingerprints',
 				type: 'string',
-				default: 'data',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+					},
+				},
+				default: '',
+				placeholder: 'SHA256:nThbg6kXUpJWGl7E1IGOCspRomTxdCARLviKw6E5SY8',
+				description:
+					'SHA256 fingerprints the host key of the destination has to match, separated by commas. Leave empty to accept any host key, or with the source connection to use its known hosts. Pinned fingerprints of the source only apply to the source itself.',
+			},
+			{
+				displayName: 'Destination Path',
+				name: 'destinationPath',
+				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+					},
+				},
+				default: '',
 				required: true,
+				placeholder: '/srv/backups/',
+				description:
+					'Where to create the copy. A path ending with a slash copies into that directory under the name of the source file.',
+			},
+			{
+				displayName: 'Copy Method',
+				name: 'copyMethod',
+				type: 'options',
 				displayOptions: {
 					show: {
-						operation: ['upload'],
 						resource: ['file'],
+						operation: ['copyBetweenHosts'],
 					},
 				},
-				placeholder: '',
-				hint: 'The name of the input binary field containing the file to be uploaded',
+				options: [
+					{
+						name: 'Stream',
+						value: 'stream',
+						description:
+							'Stream the file from the source to the destination without storing it in n8n',
+					},
+					{
+						name: 'Direct SCP From Source',
+						value: 'scp',
+						description:
+							'Have the source server send the file to the destination with scp. The destination has to be reachable from the source, password authentication needs sshpass there.',
+					},
+				],
+				default: 'stream',
 			},
 			{
-				displayName: 'Target Directory',
+				displayName: 'Options',
+				name: 'copyOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['copyBetweenHosts'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Atomic Copy',
+						name: 'atomicUpload',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/copyMethod': ['stream'],
+							},
+						},
+						description:
+							'Whether to write to a partial file next to the target and rename it into place once it is complete',
+					},
+					{
+						displayName: 'Checksum',
+						name: 'checksum',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+							},
+							{
+								name: 'MD5',
+								value: 'md5',
+							},
+							{
+								name: 'SHA-256',
+								value: 'sha256',
+							},
+						],
+						default: 'none',
+						description:
+							'Checksum to compare between the source and the copy. A direct copy connects to the destination to compute it.',
+					},
+				],
+			},
+			{
+				displayName: 'Path',
 				name: 'path',
 				type: 'string',
 				displayOptions: {
 					show: {
 						resource: ['file'],
-						operation: ['upload'],
+						operation: ['downloadArchive'],
 					},
 				},
 				default: '',
 				required: true,
-				placeholder: '/home/user',
+				placeholder: '/var/log/app',
 				description:
-					'The directory to upload the file to. The name of the file does not need to be specified, it\'s taken from the binary data file name. To override this behavior, set the parameter "File Name" under options.',
+					'The remote file or directory to pack. The archive contains it under its own name.',
 			},
 			{
-				displayName: 'Path',
+				displayName: 'Input Binary Field',
+				name: 'binaryPropertyName',
+				type: 'string',
+				default: 'data',
+				required: true,
 				displayOptions: {
 					show: {
 						resource: ['file'],
-						operation: ['download'],
+						operation: ['uploadExtract'],
 					},
 				},
+				hint: 'The name of the input binary field containing the archive to be extracted',
+			},
+			{
+				displayName: 'Target Directory',
 				name: 'path',
 				type: 'string',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['uploadExtract'],
+					},
+				},
 				default: '',
-				placeholder: '/home/user/invoice.txt',
-				description:
-					'The file path of the file to download. Has to contain the full path including file name.',
 				required: true,
+				placeholder: '/var/www/app',
+				description: 'The directory to extract the archive into. It gets created when it is missing.',
 			},
 			{
-				displayName: 'File Property',
+				displayName: 'Archive Format',
+				name: 'archiveFormat',
+				type: 'options',
 				displayOptions: {
 					show: {
 						resource: ['file'],
-						operation: ['download'],
+						operation: ['downloadArchive'],
+					},
+				},
+				options: [
+					{
+						name: 'Tar.gz',
+						value: 'tarGz',
+					},
+					{
+						name: 'Zip',
+						value: 'zip',
+						description: 'Requires zip on the server',
+					},
+				],
+				default: 'tarGz',
+			},
+			{
+				displayName: 'Archive Format',
+				name: 'archiveFormat',
+				type: 'options',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['uploadExtract'],
 					},
 				},
+				options: [
+					{
+						name: 'Detect From File Name',
+						value: 'auto',
+					},
+					{
+						name: 'Tar.gz',
+						value: 'tarGz',
+					},
+					{
+						name: 'Zip',
+						value: 'zip',
+						description: 'Requires unzip on the server',
+					},
+				],
+				default: 'auto',
+			},
+			{
+				displayName: 'Output Binary Field',
 				name: 'binaryPropertyName',
 				type: 'string',
 				default: 'data',
-				description: 'Object property name which holds binary data',
 				required: true,
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['downloadArchive'],
+					},
+				},
+				description: 'Name of the binary field to store the archive in',
+			},
+			{
+				displayName: 'Options',
+				name: 'archiveOptions',
+				type: 'collection',
+				placeholder: 'Add option',
+				displayOptions: {
+					show: {
+						resource: ['file'],
+						operation: ['downloadArchive', 'uploadExtract'],
+					},
+				},
+				default: {},
+				options: [
+					{
+						displayName: 'Clean Target',
+						name: 'cleanTarget',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/operation': ['uploadExtract'],
+							},
+						},
+						description:
+							'Whether to delete the contents of the target directory before extracting, so no files of an earlier version remain',
+					},
+					{
+						displayName: 'Exclude',
+						name: 'exclude',
+						type: 'string',
+						default: '',
+						placeholder: '*.tmp, cache',
+						displayOptions: {
+							show: {
+								'/operation': ['downloadArchive'],
+							},
+						},
+						description: 'Comma-separated patterns of files and directories to leave out of the archive',
+					},
+					{
+						displayName: 'Max Archive Size (MB)',
+						name: 'maxSize',
+						type: 'number',
+						default: 100,
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								'/operation': ['downloadArchive'],
+							},
+						},
+						description:
+							'Fail before downloading when the packed archive is larger than this, as n8n holds it as a whole',
+					},
+					{
+						displayName: 'Strip Components',
+						name: 'stripComponents',
+						type: 'number',
+						default: 0,
+						typeOptions: {
+							minValue: 0,
+						},
+						displayOptions: {
+							show: {
+								'/operation': ['uploadExtract'],
+							},
+						},
+						description:
+							'Number of leading directories to remove from the paths in the archive, e.g. 1 to extract the contents of its top directory',
+					},
+				],
 			},
 			{
 				displayName: 'Options',
@@ -376,13 +2492,171 @@ export class Sshv2 implements INodeType {
 				},
 				default: {},
 				options: [
+					{
+						displayName: 'Atomic Upload',
+						name: 'atomicUpload',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							show: {
+								'/operation': ['upload'],
+							},
+						},
+						description:
+							'Whether to upload to a partial file next to the target and rename it into place once it is complete, so the target never holds a partially written file',
+					},
+					{
+						displayName: 'Checksum',
+						name: 'checksum',
+						type: 'options',
+						options: [
+							{
+								name: 'None',
+								value: 'none',
+							},
+							{
+								name: 'MD5',
+								value: 'md5',
+							},
+							{
+								name: 'SHA-256',
+								value: 'sha256',
+							},
+						],
+						default: 'none',
+						displayOptions: {
+							hide: {
+								'/directoryOutput': ['archive'],
+							},
+						},
+						description:
+							'Checksum of the transferred data to compare with the one the server computes with sha256sum or md5sum. A mismatch fails the transfer. The checksum and the transferred bytes are added to the output.',
+					},
+					{
+						displayName: 'Exclude',
+						name: 'exclude',
+						type: 'string',
+						default: '',
+						placeholder: '*.tmp, cache/**',
+						displayOptions: {
+							show: {
+								'/operation': ['download'],
+								'/transferMode': ['directory'],
+							},
+						},
+						description:
+							'Comma-separated glob patterns of files to skip. Patterns without a slash match the file name.',
+					},
 					{
 						displayName: 'File Name',
 						name: 'fileName',
 						type: 'string',
 						default: '',
+						displayOptions: {
+							show: {
+								'/transferMode': ['file'],
+							},
+						},
 						description: 'Overrides the binary data file name',
 					},
+					{
+						displayName: 'Include',
+						name: 'include',
+						type: 'string',
+						default: '',
+						placeholder: '*.log, **/*.json',
+						displayOptions: {
+							show: {
+								'/operation': ['download'],
+								'/transferMode': ['directory'],
+							},
+						},
+						description:
+							'Comma-separated glob patterns of files to download. Patterns without a slash match the file name. Leave empty to download all files.',
+					},
+					{
+						displayName: 'Max Files',
+						name: 'maxFiles',
+						type: 'number',
+						default: 1000,
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								'/operation': ['download'],
+								'/transferMode': ['directory'],
+							},
+						},
+						description: 'Fail when the directory contains more matching files than this',
+					},
+					{
+						displayName: 'Max Total Size (MB)',
+						name: 'maxTotalSize',
+						type: 'number',
+						default: 100,
+						typeOptions: {
+							minValue: 1,
+						},
+						displayOptions: {
+							show: {
+								'/operation': ['download'],
+								'/transferMode': ['directory'],
+							},
+						},
+						description: 'Fail when the matching files are larger than this in total',
+					},
+					{
+						displayName: 'Relative Path From',
+						name: 'relativePathFrom',
+						type: 'options',
+						options: [
+							{
+								name: 'File Name',
+								value: 'fileName',
+								description: 'The binary file name, which may contain sub directories like "css/site.css"',
+							},
+							{
+								name: 'Binary Field Name',
+								value: 'propertyName',
+								description: 'The name of the binary field, e.g. "css/site.css"',
+							},
+						],
+						default: 'fileName',
+						displayOptions: {
+							show: {
+								'/operation': ['upload'],
+								'/transferMode': ['directory'],
+							},
+						},
+						description: 'Where the path of each file below the target directory is taken from',
+					},
+					{
+						displayName: 'Resume Transfers',
+						name: 'resume',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							hide: {
+								'/directoryOutput': ['archive'],
+							},
+						},
+						description:
+							'Whether to continue an interrupted transfer from the size of the partial file it left behind instead of starting over. Downloads keep their partial file in the local temporary directory.',
+					},
+					{
+						displayName: 'Use Temporary File',
+						name: 'useTempFile',
+						type: 'boolean',
+						default: false,
+						displayOptions: {
+							hide: {
+								'/directoryOutput': ['archive'],
+							},
+						},
+						description:
+							'Whether to buffer transfers in a local temporary file instead of streaming them between the binary data and the server. Only meant as a fallback, it needs local disk space for the whole file.',
+					},
 				],
 			},
 		],
@@ -396,30 +2670,11 @@ export class Sshv2 implements INodeType {
 			): Promise<INodeCredentialTestResult> {
 				const credentials = credential.data as IDataObject;
 				const ssh = new NodeSSH();
+				let hostKeyFingerprint: string | undefined;
 				try {
-					if (!credentials.privateKey) {
-						await ssh.connect({
-							host: credentials.host as string,
-							username: credentials.username as string,
-							port: credentials.port as number,
-							password: credentials.password as string,
-						});
-					} else {
-						const options: Config = {
-							host: credentials.host as string,
-							username: credentials.username as string,
-							port: credentials.port as number,
-							privateKey: formatPrivateKey(credentials.privateKey as string),
-						};
-
-						if (credentials.passphrase) {
-							options.passphrase = credentials.passphrase as string;
-						}
-
-						await ssh.connect(options);
-					}
+					({ hostKeyFingerprint } = await connect(ssh, credentials));
 				} catch (error) {
-					const message = `SSH connection failed: ${error.message}`;
+					const message = `SSH connection failed (${getErrorCode(error)}): ${error.message}`;
 					return {
 						status: 'Error',
 						message,
@@ -429,164 +2684,616 @@ export class Sshv2 implements INodeType {
 				}
 				return {
 					status: 'OK',
-					message: 'Connection successful!',
+					message: `Connection successful! Host key fingerprint: ${hostKeyFingerprint}`,
 				};
 			},
 		},
 	};
 
-	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
-		const items = this.getInputData();
+	async execute(this: IExecuteFunctions): Promise<INodeExecutionData[][]> {
+		const items = this.getInputData();
+
+		const resource = this.getNodeParameter('resource', 0);
+		const operation = this.getNodeParameter('operation', 0);
+
+		if (resource === 'command' && operation === 'broadcast') {
+			return [await broadcastCommand.call(this)];
+		}
+
+		const transferMode = this.getNodeParameter('transferMode', 0, 'file') as string;
+		const splitOutputs = this.getNodeParameter('splitOutputs', 0, false) as boolean;
+		const concurrency = this.getNodeParameter('concurrency', 0, 1) as number;
+		const poolOptions = getPoolOptions.call(this);
+		const retryOptions = getRetryOptions.call(this);
+
+		// The connection parameters are evaluated for every item, items for the
+		// same server and user share a connection
+		const connections = new Map<string, ItemConnection>();
+		// Success and failure outputs of every item and the host and attempts added
+		// to them, merged in item order once all items are done
+		const itemOutputs: INodeExecutionData[][][] = [];
+		const itemInfo: IDataObject[] = [];
+
+		const cancelSignal = this.getExecutionCancelSignal?.();
+
+		try {
+			await runWithConcurrency(items.length, concurrency, async (i) => {
+				if (cancelSignal?.aborted) {
+					throw new NodeOperationError(this.getNode(), 'The execution was cancelled');
+				}
+
+				const returnItems: INodeExecutionData[] = [];
+				const failureItems: INodeExecutionData[] = [];
+				const info: IDataObject = {};
+				itemOutputs[i] = [returnItems, failureItems];
+				itemInfo[i] = info;
+
+				try {
+					const connectionData = await getConnectionData.call(this, i);
+					info.host = connectionData.host as string;
+
+					let connection: Awaited<ReturnType<typeof getItemConnection>>;
+					try {
+						connection = await getItemConnection(
+							connections,
+							connectionData,
+							poolOptions,
+							retryOptions,
+						);
+					} finally {
+						if (retryOptions) {
+							info.connectionAttempts = connections.get(getConnectionKey(connectionData))?.attempts;
+						}
+					}
+
+					const { ssh, getSftp } = connection;
+
+					// Operations that are safe to repeat are retried, on a new connection
+					// when the connection broke
+					const retryOperation = async <T>(
+						operationFn: (current: typeof connection) => Promise<T>,
+					): Promise<T> => {
+						if (!retryOptions?.retryOperations) {
+							return await operationFn(connection);
+						}
+
+						return await withRetry(async (attempt) => {
+							info.attempts = attempt;
+
+							if (!connection.ssh.isConnected()) {
+								await dropItemConnection(connections, connectionData, connection.itemConnection);
+								connection = await getItemConnection(
+									connections,
+									connectionData,
+									poolOptions,
+									retryOptions,
+								);
+							}
+
+							return await operationFn(connection);
+						}, retryOptions);
+					};
+
+					if (
+						(resource === 'command' && operation === 'execute') ||
+						(resource === 'script' && operation === 'run')
+					) {
+						const commandOptions = this.getNodeParameter('commandOptions', i, {}) as IDataObject;
+						const acceptableExitCodes = getAcceptableExitCodes.call(this, commandOptions, i);
+						const options = await getCommandOptions.call(this, i, ssh, connectionData);
+
+						let result: CommandResult;
+
+						if (resource === 'script') {
+							const interpreter = this.getNodeParameter('interpreter', i) as string;
+							const scriptArguments = this.getNodeParameter(
+								'scriptArguments.arguments',
+								i,
+								[],
+							) as Array<{ value: string }>;
+							const env = this.getNodeParameter('environment.variables', i, []) as Array<{
+								name: string;
+								value: string;
+							}>;
+
+							result = await runScript(ssh, await getSftp(), this.getNodeParameter('script', i) as string, {
+								...options,
+								interpreter:
+									interpreter === 'custom'
+										? (this.getNodeParameter('customInterpreter', i) as string)
+										: interpreter,
+								args: scriptArguments.map(({ value }) => value),
+								env,
+							});
+						} else {
+							result = await execCommand(ssh, getCommandLine.call(this, i), options);
+						}
+
+						const succeeded = isAcceptableResult(result, acceptableExitCodes);
+
+						if (!succeeded && commandOptions.failOnExitCode) {
+							throw toNodeOperationError(
+								this.getNode(),
+								result.timedOut
+									? new SshError('Command timed out', 'COMMAND_TIMEOUT')
+									: new SshError(`Command failed with exit code ${result.code}`, 'COMMAND_FAILED'),
+								{
+									itemIndex: i,
+									description: result.stderr,
+								},
+							);
+						}
+
+						(succeeded || !splitOutputs ? returnItems : failureItems).push({
+							json: result as unknown as IDataObject,
+							pairedItem: {
+								item: i,
+							},
+						});
+					}
+
+					if (resource === 'file') {
+						if (operation === 'download' && transferMode === 'file') {
+							const dataPropertyNameDownload = this.getNodeParameter('binaryPropertyName', i);
+
+							const parameterPath = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+
+							const fileName = this.getNodeParameter('options.fileName', i, '') as string;
+							const transferOptions = getTransferOptions.call(
+								this,
+								i,
+								connectionData,
+								`Download of ${parameterPath}`,
+							);
+
+							const { binaryData, ...transfer } = await retryOperation(
+								async (current) =>
+									await downloadRemoteFile.call(
+										this,
+										current.ssh,
+										await current.getSftp(),
+										parameterPath,
+										fileName || parameterPath,
+										transferOptions,
+									),
+							);
+
+							const newItem: INodeExecutionData = {
+								// The input data is passed on, with the details of verified transfers
+								json:
+									transferOptions.checksum || transferOptions.resume
+										? { ...items[i].json, ...transfer }
+										: items[i].json,
+								binary: {},
+								pairedItem: {
+									item: i,
+								},
+							};
+
+							if (items[i].binary !== undefined && newItem.binary) {
+								// Create a shallow copy of the binary data so that the old
+								// data references which do not get changed still stay behind
+								// but the incoming data does not get changed.
+								Object.assign(newItem.binary, items[i].binary);
+							}
+
+							items[i] = newItem;
+							items[i].binary![dataPropertyNameDownload] = binaryData;
+						}
+
+						if (operation === 'upload' && transferMode === 'file') {
+							const parameterPath = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const fileName = this.getNodeParameter('options.fileName', i, '') as string;
+							
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i);
+
+							const binaryData = this.helpers.assertBinaryData(i, binaryPropertyName);
+							
+							let uploadData: Buffer | Readable;
+							if (binaryData.id) {
+								uploadData = await this.helpers.getBinaryStream(binaryData.id);
+							} else {
+								uploadData = Buffer.from(binaryData.data, BINARY_ENCODING);
+							}
+
+							const remotePath = `${parameterPath}${
+								parameterPath.charAt(parameterPath.length - 1) === '/' ? '' : '/'
+							}${fileName || binaryData.fileName}`;
+
+							const transfer = await uploadRemoteFile(
+								ssh,
+								await getSftp(),
+								uploadData,
+								remotePath,
+								getTransferOptions.call(this, i, connectionData, `Upload of ${remotePath}`),
+							);
+
+							returnItems.push({
+								json: {
+									success: true,
+									path: remotePath,
+									...transfer,
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
 
-		const returnItems: INodeExecutionData[] = [];
+						if (operation === 'download' && transferMode === 'directory') {
+							const dataPropertyNameDownload = this.getNodeParameter('binaryPropertyName', i) as string;
+							const directoryOutput = this.getNodeParameter('directoryOutput', i) as string;
+							const options = this.getNodeParameter('options', i, {}) as IDataObject;
 
-		const resource = this.getNodeParameter('resource', 0);
-		const operation = this.getNodeParameter('operation', 0);
-		const connectionType = this.getNodeParameter('connectionType', 0) as string;
-		const authentication = this.getNodeParameter('authentication', 0) as string;
+							const parameterPath = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
 
-		const ssh = new NodeSSH();
+							const files = await retryOperation(
+								async (current) =>
+									await collectRemoteFiles(await current.getSftp(), parameterPath, {
+										include: splitList(options.include as string),
+										exclude: splitList(options.exclude as string),
+										// The defaults of the options apply when they are not added, as
+										// the files are held in memory
+										maxFiles: (options.maxFiles as number) ?? 1000,
+										maxTotalSize: ((options.maxTotalSize as number) ?? 100) * 1024 * 1024,
+									}),
+							);
 
-		try {
-			// Connect to SSH server based on connection type
-			if (connectionType === 'credentials') {
-				// Use the existing credential based connection
-				if (authentication === 'password') {
-					const credentials = await this.getCredentials('sshPassword');
-
-					await ssh.connect({
-						host: credentials.host as string,
-						username: credentials.username as string,
-						port: credentials.port as number,
-						password: credentials.password as string,
-					});
-				} else if (authentication === 'privateKey') {
-					const credentials = await this.getCredentials('sshPrivateKey');
-					const options: Config = {
-						host: credentials.host as string,
-						username: credentials.username as string,
-						port: credentials.port as number,
-						privateKey: formatPrivateKey(credentials.privateKey as string),
-					};
+							if (directoryOutput === 'archive') {
+								const entries: TarEntry[] = [];
+								for (const file of files) {
+									entries.push({
+										name: file.relativePath,
+										data: await retryOperation(
+											async (current) => await readRemoteFile(await current.getSftp(), file.path),
+										),
+										mode: file.mode,
+										mtime: file.mtime,
+									});
+								}
 
-					if (credentials.passphrase) {
-						options.passphrase = credentials.passphrase as string;
-					}
+								returnItems.push({
+									json: {
+										path: parameterPath,
+										fileCount: files.length,
+										totalSize: files.reduce((total, file) => total + file.size, 0),
+									},
+									binary: {
+										[dataPropertyNameDownload]: await this.helpers.prepareBinaryData(
+											createTarGz(entries),
+											`${remoteBasename(parameterPath)}.tar.gz`,
+											'application/gzip',
+										),
+									},
+									pairedItem: {
+										item: i,
+									},
+								});
+							} else {
+								for (const file of files) {
+									const { binaryData, ...transfer } = await retryOperation(
+										async (current) =>
+											await downloadRemoteFile.call(
+												this,
+												current.ssh,
+												await current.getSftp(),
+												file.path,
+												file.path,
+												getTransferOptions.call(this, i, connectionData, `Download of ${file.path}`),
+											),
+									);
 
-					await ssh.connect(options);
-				}
-			} else {
-				// Use dynamic parameters for connection
-				const host = this.getNodeParameter('host', 0) as string;
-				const port = this.getNodeParameter('port', 0) as number;
-				const username = this.getNodeParameter('username', 0) as string;
-
-				if (authentication === 'password') {
-					const password = this.getNodeParameter('password', 0) as string;
-					
-					await ssh.connect({
-						host,
-						port,
-						username,
-						password,
-					});
-				} else if (authentication === 'privateKey') {
-					const privateKey = this.getNodeParameter('privateKey', 0) as string;
-					const passphrase = this.getNodeParameter('passphrase', 0, '') as string;
-					
-					const options: Config = {
-						host,
-						port,
-						username,
-						privateKey: formatPrivateKey(privateKey),
-					};
+									returnItems.push({
+										json: {
+											path: file.path,
+											relativePath: file.relativePath,
+											...transfer,
+										},
+										binary: {
+											[dataPropertyNameDownload]: binaryData,
+										},
+										pairedItem: {
+											item: i,
+										},
+									});
+								}
+							}
+						}
 
-					if (passphrase) {
-						options.passphrase = passphrase;
-					}
+						if (operation === 'upload' && transferMode === 'directory') {
+							const parameterPath = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const binarySource = this.getNodeParameter('binarySource', i) as string;
+							const relativePathFrom = this.getNodeParameter(
+								'options.relativePathFrom',
+								i,
+								'fileName',
+							) as 'fileName' | 'propertyName';
 
-					await ssh.connect(options);
-				}
-			}
+							const binaryPropertyNames =
+								binarySource === 'all'
+									? Object.keys(items[i].binary ?? {})
+									: splitList(this.getNodeParameter('binaryPropertyNames', i) as string);
 
-			for (let i = 0; i < items.length; i++) {
-				try {
-					if (resource === 'command') {
-						if (operation === 'execute') {
-							const command = this.getNodeParameter('command', i) as string;
+							if (!binaryPropertyNames.length) {
+								throw new NodeOperationError(this.getNode(), 'No binary data exists on item!', {
+									itemIndex: i,
+								});
+							}
 
-							const cwd = await resolveHomeDir.call(
+							const files = await uploadBinaryTree.call(
 								this,
-								this.getNodeParameter('cwd', i) as string,
 								ssh,
+								await getSftp(),
 								i,
+								binaryPropertyNames,
+								parameterPath,
+								relativePathFrom,
+								getTransferOptions.call(this, i, connectionData, `Upload to ${parameterPath}`),
 							);
+
 							returnItems.push({
-								json: (await ssh.execCommand(command, { cwd })) as unknown as IDataObject,
+								json: {
+									success: true,
+									path: parameterPath,
+									files,
+								},
 								pairedItem: {
 									item: i,
 								},
 							});
 						}
-					}
-
-					if (resource === 'file') {
-						if (operation === 'download') {
-							const dataPropertyNameDownload = this.getNodeParameter('binaryPropertyName', i);
 
-							const parameterPath = await resolveHomeDir.call(
+						if (operation === 'syncDirectory') {
+							const path = await resolveHomeDir.call(
 								this,
 								this.getNodeParameter('path', i) as string,
 								ssh,
 								i,
 							);
+							const syncSource = this.getNodeParameter('syncSource', i) as string;
+							const options = this.getNodeParameter('syncOptions', i, {}) as IDataObject;
+							const exclude = splitList(options.exclude as string);
+							const sftp = await getSftp();
 
-							const binaryFile = await tmpFile({ prefix: 'n8n-ssh-' });
+							let sourceFiles: SyncSourceFile[];
+							let sourceDirectory: string | undefined;
 
-							try {
-								await ssh.getFile(binaryFile.path, parameterPath);
-								
-								const newItem: INodeExecutionData = {
-									json: items[i].json,
-									binary: {},
-									pairedItem: {
-										item: i,
-									},
-								};
+							if (syncSource === 'remote') {
+								sourceDirectory = await resolveHomeDir.call(
+									this,
+									this.getNodeParameter('sourceDirectory', i) as string,
+									ssh,
+									i,
+								);
+								sourceFiles = await collectRemoteSyncFiles(ssh, sftp, sourceDirectory, exclude);
+							} else {
+								const binaryPropertyNames =
+									this.getNodeParameter('binarySource', i) === 'all'
+										? Object.keys(items[i].binary ?? {})
+										: splitList(this.getNodeParameter('binaryPropertyNames', i) as string);
 
-								if (items[i].binary !== undefined && newItem.binary) {
-									// Create a shallow copy of the binary data so that the old
-									// data references which do not get changed still stay behind
-									// but the incoming data does not get changed.
-									Object.assign(newItem.binary, items[i].binary);
+								if (!binaryPropertyNames.length) {
+									throw new NodeOperationError(this.getNode(), 'No binary data exists on item!', {
+										itemIndex: i,
+									});
 								}
 
-								items[i] = newItem;
+								sourceFiles = await collectBinarySyncFiles.call(
+									this,
+									i,
+									binaryPropertyNames,
+									(options.relativePathFrom as 'fileName' | 'propertyName') ?? 'fileName',
+								);
+							}
+
+							const dryRun = (options.dryRun as boolean) ?? false;
+							const result = await syncDirectory(ssh, sftp, sourceFiles, path, {
+								compareBy: this.getNodeParameter('compareBy', i) as SyncCompareMode,
+								deleteExtraneous: (options.deleteExtraneous as boolean) ?? false,
+								dryRun,
+								exclude,
+								transferOptions: getTransferOptions.call(this, i, connectionData, `Sync of ${path}`),
+							});
+
+							returnItems.push({
+								json: {
+									success: true,
+									path,
+									...(sourceDirectory ? { sourceDirectory } : {}),
+									dryRun,
+									created: result.created,
+									updated: result.updated,
+									deleted: result.deleted,
+									unchanged: result.unchanged,
+									changes: result.changes.map((change) => ({ ...change })),
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
+
+						if (operation === 'copyBetweenHosts') {
+							const sourcePath = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const destinationData = getDestinationConnectionData.call(this, i, connectionData);
+							const method = this.getNodeParameter('copyMethod', i) as CopyMethod;
+							const options = this.getNodeParameter('copyOptions', i, {}) as IDataObject;
+							const checksum = (options.checksum as string) ?? 'none';
+
+							// A direct copy only connects to the destination to verify it
+							let destination: PooledConnection | undefined;
+							if (method === 'stream' || checksum !== 'none') {
+								try {
+									destination = await openConnection(destinationData, getPoolOptions.call(this));
+								} catch (error) {
+									throw toNodeOperationError(this.getNode(), error, {
+										itemIndex: i,
+										message: `Connection to the destination ${destinationData.host} failed: ${error.message}`,
+									});
+								}
+							}
+
+							let destinationSftp: SFTPWrapper | undefined;
+
+							try {
+								let destinationPath = this.getNodeParameter('destinationPath', i) as string;
+								if (destinationPath.endsWith('/')) {
+									destinationPath += remoteBasename(sourcePath);
+								}
 
-								const fileName = this.getNodeParameter('options.fileName', i, '') as string;
+								if (destination) {
+									destinationPath = await resolveHomeDir.call(
+										this,
+										destinationPath,
+										destination.ssh,
+										i,
+									);
+								} else if (destinationPath.startsWith('~/')) {
+									// scp takes relative paths as relative to the home directory
+									destinationPath = destinationPath.slice(2);
+								}
 
-								items[i].binary![dataPropertyNameDownload] = await this.nodeHelpers.copyBinaryFile(
-									binaryFile.path,
-									fileName || parameterPath,
+								const destinationSsh = destination?.ssh;
+								const result = await copyBetweenHosts(
+									{ ssh, getSftp },
+									sourcePath,
+									destinationSsh && {
+										ssh: destinationSsh,
+										getSftp: async () => (destinationSftp ??= await destinationSsh.requestSFTP()),
+									},
+									destinationData,
+									destinationPath,
+									{
+										method,
+										checksum: checksum === 'none' ? undefined : (checksum as ChecksumAlgorithm),
+										atomic: (options.atomicUpload as boolean) ?? false,
+										abortSignal: this.getExecutionCancelSignal?.(),
+										onProgress: reportTransferProgress.call(
+											this,
+											`Copy of ${sourcePath} to ${destinationData.host}`,
+										),
+									},
 								);
+
+								returnItems.push({
+									json: {
+										success: true,
+										source: {
+											host: connectionData.host,
+											path: sourcePath,
+										},
+										destination: {
+											host: destinationData.host,
+											path: destinationPath,
+										},
+										...result,
+									},
+									pairedItem: {
+										item: i,
+									},
+								});
 							} finally {
-								await binaryFile.cleanup();
+								destinationSftp?.end();
+								destination?.release();
 							}
 						}
 
-						if (operation === 'upload') {
-							const parameterPath = await resolveHomeDir.call(
+						if (operation === 'downloadArchive') {
+							const path = await resolveHomeDir.call(
 								this,
 								this.getNodeParameter('path', i) as string,
 								ssh,
 								i,
 							);
-							const fileName = this.getNodeParameter('options.fileName', i, '') as string;
-							
-							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i);
+							const format = this.getNodeParameter('archiveFormat', i) as ArchiveFormat;
+							const options = this.getNodeParameter('archiveOptions', i, {}) as IDataObject;
+
+							const { binaryData, ...transfer } = await downloadRemoteArchive.call(
+								this,
+								ssh,
+								await getSftp(),
+								path,
+								format,
+								{
+									exclude: splitList(options.exclude as string),
+									maxSize: ((options.maxSize as number) ?? 100) * 1024 * 1024,
+									abortSignal: this.getExecutionCancelSignal?.(),
+									transferOptions: getTransferOptions.call(
+										this,
+										i,
+										connectionData,
+										`Download of the archive of ${path}`,
+									),
+								},
+							);
+
+							returnItems.push({
+								json: {
+									success: true,
+									path,
+									format,
+									...transfer,
+								},
+								binary: {
+									[this.getNodeParameter('binaryPropertyName', i) as string]: binaryData,
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
 
+						if (operation === 'uploadExtract') {
+							const path = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const binaryPropertyName = this.getNodeParameter('binaryPropertyName', i) as string;
+							const options = this.getNodeParameter('archiveOptions', i, {}) as IDataObject;
 							const binaryData = this.helpers.assertBinaryData(i, binaryPropertyName);
-							
+
+							let format = this.getNodeParameter('archiveFormat', i) as ArchiveFormat | 'auto';
+							if (format === 'auto') {
+								const detected = detectArchiveFormat(binaryData);
+								if (!detected) {
+									throw new NodeOperationError(
+										this.getNode(),
+										`Cannot tell the format of the archive "${binaryData.fileName ?? binaryPropertyName}". Select the archive format`,
+										{
+											itemIndex: i,
+										},
+									);
+								}
+								format = detected;
+							}
+
 							let uploadData: Buffer | Readable;
 							if (binaryData.id) {
 								uploadData = await this.helpers.getBinaryStream(binaryData.id);
@@ -594,61 +3301,258 @@ export class Sshv2 implements INodeType {
 								uploadData = Buffer.from(binaryData.data, BINARY_ENCODING);
 							}
 
-							const binaryFile = await tmpFile({ prefix: 'n8n-ssh-' });
+							const transfer = await uploadAndExtractArchive(
+								ssh,
+								await getSftp(),
+								uploadData,
+								path,
+								format,
+								{
+									stripComponents: (options.stripComponents as number) ?? 0,
+									cleanTarget: (options.cleanTarget as boolean) ?? false,
+									abortSignal: this.getExecutionCancelSignal?.(),
+									transferOptions: getTransferOptions.call(
+										this,
+										i,
+										connectionData,
+										`Upload of the archive to ${path}`,
+									),
+								},
+							);
 
-							try {
-								await writeFile(binaryFile.path, uploadData);
-								
-								await ssh.putFile(
-									binaryFile.path,
-									`${parameterPath}${
-										parameterPath.charAt(parameterPath.length - 1) === '/' ? '' : '/'
-									}${fileName || binaryData.fileName}`,
-								);
+							returnItems.push({
+								json: {
+									success: true,
+									path,
+									format,
+									...transfer,
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
 
-								returnItems.push({
-									json: {
-										success: true,
-									},
+						if (operation === 'list') {
+							const path = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const options = this.getNodeParameter('fileSystemOptions', i, {}) as IDataObject;
+
+							const entries = await retryOperation(
+								async (current) =>
+									await listDirectory(await current.getSftp(), path, {
+										recursive: options.recursive as boolean,
+										includeHidden: options.includeHidden !== false,
+									}),
+							);
+
+							returnItems.push(
+								...entries.map((entry) => ({
+									json: entry,
 									pairedItem: {
 										item: i,
 									},
-								});
-							} finally {
-								await binaryFile.cleanup();
+								})),
+							);
+						}
+
+						if (operation === 'stat') {
+							const path = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+
+							returnItems.push({
+								json: formatEntry(
+									path,
+									await retryOperation(async (current) => await lstat(await current.getSftp(), path)),
+								),
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
+
+						if (operation === 'createDirectory') {
+							const path = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const createParentDirectories = this.getNodeParameter(
+								'fileSystemOptions.createParentDirectories',
+								i,
+								true,
+							) as boolean;
+
+							await makeDirectory(await getSftp(), path, createParentDirectories);
+
+							returnItems.push({
+								json: {
+									success: true,
+									path,
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
+
+						if (operation === 'delete') {
+							const path = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const recursive = this.getNodeParameter(
+								'fileSystemOptions.recursive',
+								i,
+								false,
+							) as boolean;
+
+							await removePath(await getSftp(), path, recursive);
+
+							returnItems.push({
+								json: {
+									success: true,
+									path,
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
+
+						if (operation === 'rename') {
+							const path = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const newPath = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('newPath', i) as string,
+								ssh,
+								i,
+							);
+							const overwrite = this.getNodeParameter(
+								'fileSystemOptions.overwrite',
+								i,
+								false,
+							) as boolean;
+
+							await renamePath(await getSftp(), path, newPath, overwrite);
+
+							returnItems.push({
+								json: {
+									success: true,
+									path,
+									newPath,
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
+						}
+
+						if (operation === 'chmod') {
+							const path = await resolveHomeDir.call(
+								this,
+								this.getNodeParameter('path', i) as string,
+								ssh,
+								i,
+							);
+							const mode = (this.getNodeParameter('mode', i) as string).trim();
+							const recursive = this.getNodeParameter(
+								'fileSystemOptions.recursive',
+								i,
+								false,
+							) as boolean;
+
+							if (!/^[0-7]{3,4}$/.test(mode)) {
+								throw new NodeOperationError(
+									this.getNode(),
+									`Invalid mode "${mode}". Use octal notation like "644" or "0755"`,
+									{
+										itemIndex: i,
+									},
+								);
 							}
+
+							await changeMode(await getSftp(), path, parseInt(mode, 8), recursive);
+
+							returnItems.push({
+								json: {
+									success: true,
+									path,
+									mode: mode.padStart(4, '0'),
+								},
+								pairedItem: {
+									item: i,
+								},
+							});
 						}
 					}
 				} catch (error) {
 					if (this.continueOnFail()) {
-						if (resource === 'file' && operation === 'download') {
+						if (resource === 'file' && operation === 'download' && transferMode === 'file') {
 							items[i] = {
 								json: {
 									error: error.message,
+									errorCode: getErrorCode(error),
 								},
 							};
 						} else {
-							returnItems.push({
+							(splitOutputs ? failureItems : returnItems).push({
 								json: {
 									error: error.message,
+									errorCode: getErrorCode(error),
 								},
 								pairedItem: {
 									item: i,
 								},
 							});
 						}
-						continue;
+						return;
 					}
-					throw error;
+					throw toNodeOperationError(this.getNode(), error, { itemIndex: i });
 				}
-			}
+			});
 		} finally {
-			ssh.dispose();
+			for (const itemConnection of connections.values()) {
+				await releaseItemConnection(itemConnection);
+			}
 		}
 
-		if (resource === 'file' && operation === 'download') {
+		// Every output item tells which host it ran on and how many attempts it took
+		const withItemInfo = (item: INodeExecutionData, i: number): INodeExecutionData =>
+			Object.keys(itemInfo[i] ?? {}).length
+				? { ...item, json: { ...item.json, ...itemInfo[i] } }
+				: item;
+
+		if (resource === 'file' && operation === 'download' && transferMode === 'file') {
 			// For file downloads the files get attached to the existing items
-			return [items];
+			return [items.map(withItemInfo)];
+		}
+
+		const returnItems = itemOutputs.flatMap(([success], i) =>
+			success.map((item) => withItemInfo(item, i)),
+		);
+		const failureItems = itemOutputs.flatMap(([, failure], i) =>
+			failure.map((item) => withItemInfo(item, i)),
+		);
+
+		if (splitOutputs) {
+			return [returnItems, failureItems];
 		} else {
 			return [returnItems];
 		}
@@ -0,0 +1,67 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+
+// Commands that change the server unless they are configured otherwise
+export const DEFAULT_RISKY_COMMANDS = [
+	'/(^|[\\s;&|(`])(rm|rmdir|mv|cp|dd|ln|truncate|shred|tee)(\\s|$)/',
+	'/(^|[\\s;&|(`])(chmod|chown|chgrp|kill|pkill|killall|reboot|shutdown|halt|poweroff|mkfs\\S*)(\\s|$)/',
+	'/(^|[\\s;&|(`])(systemctl|service)\\s.*\\b(start|stop|restart|reload|enable|disable)\\b/',
+	'/(^|[\\s;&|(`])(apt|apt-get|yum|dnf|pip|npm)\\s+(install|remove|purge|upgrade|uninstall)\\b/',
+	'/\\bsed\\s(.*\\s)?(-[a-zA-Z]*i|--in-place)/',
+	'/>(?!&|\\s*\\/dev\\/null)/',
+].join('\n');
+
+// How long the approval ID of a previewed operation can be approved to run it
+const APPROVAL_TTL = 60 * 60 * 1000;
+
+// The ID is derived from the operation alone, so every n8n process and worker
+// checks it the same way, also after a restart. It cannot approve anything by
+// itself, only the workflow passing it back as approved does.
+function hashOperation(expiresAt: number, operation: IDataObject): string {
+	return createHash('sha256')
+		.update(`${expiresAt}:${JSON.stringify(operation)}`)
+		.digest('base64url');
+}
+
+/**
+ * Return the SHA256 hash of some content as hex
+ */
+export function hashContent(data: Buffer | string): string {
+	return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Create the ID a person approves to run exactly the given operation within a
+ * limited time
+ */
+export function createApprovalId(operation: IDataObject): {
+	approvalId: string;
+	expiresAt: string;
+} {
+	const expiresAt = Date.now() + APPROVAL_TTL;
+
+	return {
+		approvalId: `${expiresAt}.${hashOperation(expiresAt, operation)}`,
+		expiresAt: new Date(expiresAt).toISOString(),
+	};
+}
+
+/**
+ * Check whether one of the approved IDs was created for the same operation
+ * and has not expired
+ */
+export function isApproved(approvedIds: string[], operation: IDataObject): boolean {
+	return approvedIds.some((approvalId) => {
+		const [expires, hash] = approvalId.trim().split('.');
+		const expiresAt = Number(expires);
+
+		if (!hash || !Number.isFinite(expiresAt) || expiresAt < Date.now()) {
+			return false;
+		}
+
+		const expected = Buffer.from(hashOperation(expiresAt, operation));
+		const actual = Buffer.from(hash);
+
+		return expected.length === actual.length && timingSafeEqual(expected, actual);
+	});
+}
@@ -0,0 +1,227 @@
+import type { IBinaryData, IExecuteFunctions } from 'n8n-workflow';
+import type { NodeSSH } from 'node-ssh';
+import { posix } from 'path';
+import type { SFTPWrapper } from 'ssh2';
+import type { Readable } from 'stream';
+
+import { SshError } from './errors';
+import { execCommand, withRemoteTempDirectory } from './exec';
+import { stat } from './sftp';
+import type { TransferOptions, TransferResult } from './transfer';
+import { downloadRemoteFile, uploadRemoteFile } from './transfer';
+import { shellQuote } from './utilities';
+
+export type ArchiveFormat = 'tarGz' | 'zip';
+
+export interface PackOptions {
+	/** Glob patterns of files to leave out of the archive */
+	exclude?: string[];
+	/** Largest archive in bytes that gets downloaded, it is held by n8n as a whole */
+	maxSize?: number;
+	abortSignal?: AbortSignal;
+	transferOptions?: TransferOptions;
+}
+
+export interface ExtractOptions {
+	/** Number of leading path components removed from the archived paths */
+	stripComponents?: number;
+	/** Removes the contents of the target directory before extracting */
+	cleanTarget?: boolean;
+	abortSignal?: AbortSignal;
+	transferOptions?: TransferOptions;
+}
+
+const ARCHIVE_EXTENSIONS: Record<ArchiveFormat, string> = {
+	tarGz: '.tar.gz',
+	zip: '.zip',
+};
+
+/**
+ * Tell the format of an archive from its file name or MIME type
+ */
+export function detectArchiveFormat(binaryData: IBinaryData): ArchiveFormat | undefined {
+	const fileName = (binaryData.fileName ?? '').toLowerCase();
+
+	if (/\.(tar\.gz|tgz)$/.test(fileName) || /gzip/.test(binaryData.mimeType)) {
+		return 'tarGz';
+	}
+	if (fileName.endsWith('.zip') || /zip/.test(binaryData.mimeType)) {
+		return 'zip';
+	}
+
+	return undefined;
+}
+
+// Parent directory and name of the packed path. Trailing slashes are ignored
+// and relative paths without a slash are packed from the working directory.
+function splitPackedPath(path: string): { parent: string; name: string } {
+	const trimmed = path.replace(/(.)\/+$/, '$1');
+
+	return { parent: posix.dirname(trimmed), name: posix.basename(trimmed) };
+}
+
+function getPackCommand(
+	path: string,
+	archivePath: string,
+	format: ArchiveFormat,
+	exclude: string[],
+): string {
+	const { parent, name: baseName } = splitPackedPath(path);
+	// The root directory has no name of its own and is packed as its contents
+	const name = baseName || '.';
+
+	if (format === 'zip') {
+		// zip matches patterns against the whole stored path, so they are applied
+		// below any directory and to the contents of matching directories like tar does
+		const patterns = exclude.flatMap((pattern) => [pattern, `*/${pattern}`, `*/${pattern}/*`]);
+
+		return [
+			`cd ${shellQuote(parent)} && zip -q -r ${shellQuote(archivePath)} ${shellQuote(name)}`,
+			...(patterns.length ? ['-x', ...patterns.map(shellQuote)] : []),
+		].join(' ');
+	}
+
+	return [
+		'tar -czf',
+		shellQuote(archivePath),
+		...exclude.map((pattern) => shellQuote(`--exclude=${pattern}`)),
+		'-C',
+		shellQuote(parent),
+		shellQuote(name),
+	].join(' ');
+}
+
+function getExtractCommand(
+	archivePath: string,
+	targetDirectory: string,
+	format: ArchiveFormat,
+	options: ExtractOptions,
+): string {
+	const { stripComponents = 0 } = options;
+	const archive = shellQuote(archivePath);
+	const target = shellQuote(targetDirectory);
+	const commands = [`mkdir -p ${target}`];
+
+	if (options.cleanTarget) {
+		commands.push(`find ${target} -mindepth 1 -delete`);
+	}
+
+	if (format === 'tarGz') {
+		commands.push(
+			`tar -xzf ${archive} -C ${target}${
+				stripComponents ? ` --strip-components=${stripComponents}` : ''
+			}`,
+		);
+	} else if (!stripComponents) {
+		commands.push(`unzip -q -o ${archive} -d ${target}`);
+	} else {
+		// unzip cannot strip components, so the archive is extracted next to it
+		// and only what lies below the stripped directories gets copied
+		const extracted = shellQuote(`${archivePath}.d`);
+		const depth = stripComponents + 1;
+
+		commands.push(
+			`unzip -q -o ${archive} -d ${extracted}`,
+			`(cd ${extracted} && find . -mindepth ${depth} -maxdepth ${depth} -exec cp -R -p {} ${target}/ \\;)`,
+		);
+	}
+
+	return commands.join(' && ');
+}
+
+async function runArchiveCommand(
+	ssh: NodeSSH,
+	command: string,
+	description: string,
+	abortSignal?: AbortSignal,
+): Promise<string> {
+	const result = await execCommand(ssh, command, { abortSignal });
+
+	if (result.code !== 0) {
+		throw new SshError(
+			`Failed to ${description}: ${result.stderr.trim() || `exit code ${result.code}`}`,
+			'COMMAND_FAILED',
+		);
+	}
+
+	return result.stdout.trim();
+}
+
+/**
+ * Pack a remote file or directory into an archive on the server and download
+ * it as binary data. The archive contains the path under its own name and is
+ * removed from the server afterwards.
+ */
+export async function downloadRemoteArchive(
+	this: IExecuteFunctions,
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	path: string,
+	format: ArchiveFormat,
+	options: PackOptions = {},
+): Promise<TransferResult & { binaryData: IBinaryData; fileName: string }> {
+	const { abortSignal } = options;
+	const fileName = `${splitPackedPath(path).name || 'root'}${ARCHIVE_EXTENSIONS[format]}`;
+
+	return await withRemoteTempDirectory(ssh, async (directory) => {
+		const archivePath = `${directory}/${fileName}`;
+
+		await runArchiveCommand(
+			ssh,
+			getPackCommand(path, archivePath, format, options.exclude ?? []),
+			`pack "${path}"`,
+			abortSignal,
+		);
+
+		const { size } = await stat(sftp, archivePath);
+		if (options.maxSize && size > options.maxSize) {
+			throw new Error(
+				`The archive of "${path}" has ${size} bytes, more than the size limit of ${options.maxSize} bytes. Exclude files or raise the size limit`,
+			);
+		}
+
+		const result = await downloadRemoteFile.call(
+			this,
+			ssh,
+			sftp,
+			archivePath,
+			fileName,
+			options.transferOptions,
+		);
+
+		return { ...result, fileName };
+	});
+}
+
+/**
+ * Upload an archive to a temporary file on the server and extract it into
+ * the target directory, which gets created when it is missing
+ */
+export async function uploadAndExtractArchive(
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	data: Buffer | Readable,
+	targetDirectory: string,
+	format: ArchiveFormat,
+	options: ExtractOptions = {},
+): Promise<TransferResult> {
+	const { abortSignal } = options;
+
+	if (options.cleanTarget && targetDirectory.replace(/\/+$/, '') === '') {
+		throw new Error('The root directory cannot be cleaned before extracting an archive');
+	}
+
+	return await withRemoteTempDirectory(ssh, async (directory) => {
+		const archivePath = `${directory}/archive${ARCHIVE_EXTENSIONS[format]}`;
+		const result = await uploadRemoteFile(ssh, sftp, data, archivePath, options.transferOptions);
+
+		await runArchiveCommand(
+			ssh,
+			getExtractCommand(archivePath, targetDirectory, format, options),
+			`extract the archive into "${targetDirectory}"`,
+			abortSignal,
+		);
+
+		return result;
+	});
+}
@@ -0,0 +1,332 @@
+import { createHash, createHmac } from 'crypto';
+import type { IDataObject } from 'n8n-workflow';
+import type { Config } from 'node-ssh';
+import { NodeSSH } from 'node-ssh';
+
+import { SshError } from './errors';
+import { formatPrivateKey, splitList } from './utilities';
+
+export type HostKeyPolicy = 'any' | 'fingerprint' | 'knownHosts';
+
+export interface HostEntry {
+	host: string;
+	port?: number;
+}
+
+export interface ConnectResult {
+	hostKeyFingerprint?: string;
+}
+
+/**
+ * Build the node-ssh config from a credential or the dynamic connection parameters
+ */
+export function buildConnectConfig(data: IDataObject): Config {
+	const config: Config = {
+		host: data.host as string,
+		port: data.port as number,
+		username: data.username as string,
+	};
+
+	if (data.privateKey) {
+		config.privateKey = formatPrivateKey(data.privateKey as string);
+
+		if (data.passphrase) {
+			config.passphrase = data.passphrase as string;
+		}
+	} else {
+		config.password = data.password as string;
+	}
+
+	if (data.keepaliveInterval) {
+		config.keepaliveInterval = data.keepaliveInterval as number;
+	}
+
+	return config;
+}
+
+/**
+ * Identify the server and user of the connection data, so connections can be
+ * shared between items. Differing secrets or jump hosts get a different key.
+ */
+export function getConnectionKey(data: IDataObject): string {
+	const digest = createHash('sha256').update(JSON.stringify(data)).digest('hex').slice(0, 16);
+
+	return `${data.username as string}@${data.host as string}:${(data.port as number) ?? 22}#${digest}`;
+}
+
+function parseHostEntry(entry: unknown): HostEntry {
+	if (entry && typeof entry === 'object') {
+		const { host, port } = entry as IDataObject;
+		if (typeof host !== 'string' || !host.trim()) {
+			throw new Error(`Invalid host ${JSON.stringify(entry)}, an object needs a "host" field`);
+		}
+		return port === undefined || port === ''
+			? { host: host.trim() }
+			: parseHostEntry(`${host.trim()}:${port}`);
+	}
+
+	const value = String(entry).trim();
+	// IPv6 addresses have to be put in brackets to be combined with a port
+	const match = /^\[(.+)\](?::(.*))?$/.exec(value) ?? /^([^:]+):(.*)$/.exec(value);
+
+	if (!match) return { host: value };
+
+	const port = match[2] === undefined ? undefined : Number(match[2]);
+	if (port !== undefined && !(Number.isInteger(port) && port > 0 && port < 65536)) {
+		throw new Error(`Invalid port in host "${value}"`);
+	}
+
+	return port === undefined ? { host: match[1] } : { host: match[1], port };
+}
+
+/**
+ * Parse a list of hosts given as comma-separated text, a JSON array or an
+ * array. Entries are hosts with an optional port like "web1:2222" or
+ * "[::1]:2222", or objects with a host and a port. Repeated hosts are only
+ * returned once.
+ */
+export function parseHostList(value: unknown): HostEntry[] {
+	let entries: unknown[];
+
+	if (Array.isArray(value)) {
+		entries = value;
+	} else if (typeof value === 'string') {
+		entries = splitList(value);
+
+		if (value.trim().startsWith('[')) {
+			try {
+				const parsed = JSON.parse(value);
+				if (Array.isArray(parsed)) entries = parsed;
+			} catch {
+				// Not JSON but a bracketed IPv6 address
+			}
+		}
+	} else if (value === undefined || value === null) {
+		entries = [];
+	} else {
+		entries = [value];
+	}
+
+	const hosts = new Map<string, HostEntry>();
+
+	for (const entry of entries) {
+		const host = parseHostEntry(entry);
+		if (host.host) hosts.set(`${host.host}:${host.port ?? ''}`, host);
+	}
+
+	return [...hosts.values()];
+}
+
+/**
+ * Compute the OpenSSH style SHA256 fingerprint of a raw host key
+ */
+export function getHostKeyFingerprint(key: Buffer): string {
+	return `SHA256:${createHash('sha256').update(key).digest('base64').replace(/=+$/, '')}`;
+}
+
+function normalizeFingerprint(fingerprint: string): string {
+	return fingerprint.replace(/^SHA256:/i, '').replace(/=+$/, '');
+}
+
+function matchesHostPattern(pattern: string, hostEntry: string): boolean {
+	// Hashed entries are "|1|<base64 salt>|<base64 HMAC-SHA1 of the host>"
+	if (pattern.startsWith('|1|')) {
+		const [salt, hash] = pattern.slice(3).split('|');
+		const digest = createHmac('sha1', Buffer.from(salt, 'base64'))
+			.update(hostEntry)
+			.digest('base64');
+		return digest === hash;
+	}
+
+	const source = pattern
+		.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+		.replace(/\*/g, '.*')
+		.replace(/\?/g, '.');
+
+	return new RegExp(`^${source}$`, 'i').test(hostEntry);
+}
+
+function matchesHostList(hostList: string, hostEntry: string): boolean {
+	let matched = false;
+
+	for (const pattern of hostList.split(',')) {
+		if (pattern.startsWith('!')) {
+			if (matchesHostPattern(pattern.slice(1), hostEntry)) return false;
+		} else if (matchesHostPattern(pattern, hostEntry)) {
+			matched = true;
+		}
+	}
+
+	return matched;
+}
+
+/**
+ * Check a presented host key against the content of a known_hosts file
+ */
+export function isKnownHostKey(
+	knownHosts: string,
+	host: string,
+	port: number,
+	key: Buffer,
+): boolean {
+	const hostEntry = port && port !== 22 ? `[${host}]:${port}` : host;
+	let known = false;
+
+	for (const rawLine of knownHosts.split(/\r?\n/)) {
+		const line = rawLine.trim();
+		if (!line || line.startsWith('#')) continue;
+
+		const fields = line.split(/\s+/);
+		const marker = fields[0].startsWith('@') ? (fields.shift() as string) : undefined;
+		const [hostList, , encodedKey] = fields;
+
+		if (!encodedKey || marker === '@cert-authority') continue;
+		if (!matchesHostList(hostList, hostEntry)) continue;
+		if (!Buffer.from(encodedKey, 'base64').equals(key)) continue;
+
+		// A revoked key is rejected even if another line lists it as valid
+		if (marker === '@revoked') return false;
+
+		known = true;
+	}
+
+	return known;
+}
+
+/**
+ * Read the jump hosts of the connection data, which come either as the values
+ * of a fixed collection or as the JSON of a credential field
+ */
+export function getJumpHosts(data: IDataObject): IDataObject[] {
+	let jumpHosts = data.jumpHosts;
+
+	if (typeof jumpHosts === 'string') {
+		if (!jumpHosts.trim()) return [];
+
+		try {
+			jumpHosts = JSON.parse(jumpHosts);
+		} catch (error) {
+			throw new Error(`The jump hosts are not valid JSON: ${error.message}`);
+		}
+	}
+
+	if (!jumpHosts) return [];
+
+	if (!Array.isArray(jumpHosts)) {
+		throw new Error('The jump hosts have to be a list of hosts');
+	}
+
+	return (jumpHosts as IDataObject[]).map((jumpHost) => ({
+		port: 22,
+		...jumpHost,
+		hostKeyPolicy: jumpHost.hostKeyFingerprints ? 'fingerprint' : 'any',
+	}));
+}
+
+async function connectDirect(
+	ssh: NodeSSH,
+	data: IDataObject,
+	sock?: Config['sock'],
+): Promise<ConnectResult> {
+	const config = buildConnectConfig(data);
+	const policy = (data.hostKeyPolicy as HostKeyPolicy | undefined) ?? 'any';
+	const result: ConnectResult = {};
+	let rejectionReason: string | undefined;
+
+	if (sock) {
+		config.sock = sock;
+	}
+
+	config.hostVerifier = (key: Buffer) => {
+		result.hostKeyFingerprint = getHostKeyFingerprint(key);
+
+		if (policy === 'fingerprint') {
+			const pinned = splitList((data.hostKeyFingerprints as string)?.replace(/\s+/g, ','));
+			if (
+				!pinned.some(
+					(fingerprint) =>
+						normalizeFingerprint(fingerprint) ===
+						normalizeFingerprint(result.hostKeyFingerprint as string),
+				)
+			) {
+				rejectionReason = 'does not match any of the pinned fingerprints';
+				return false;
+			}
+		}
+
+		if (policy === 'knownHosts') {
+			if (
+				!isKnownHostKey(
+					(data.knownHosts as string) ?? '',
+					config.host as string,
+					config.port as number,
+					key,
+				)
+			) {
+				rejectionReason = 'is not listed for this host in the known hosts';
+				return false;
+			}
+		}
+
+		return true;
+	};
+
+	try {
+		await ssh.connect(config);
+	} catch (error) {
+		if (rejectionReason) {
+			throw new SshError(
+				`Host key verification failed for ${config.host}:${config.port}. The presented host key ${result.hostKeyFingerprint} ${rejectionReason}`,
+				'HOST_KEY_MISMATCH',
+			);
+		}
+		throw error;
+	}
+
+	return result;
+}
+
+/**
+ * Connect to a server while enforcing the host key policy of the connection
+ * data. The fingerprint of the presented host key is always returned so it
+ * can be shown to the user for pinning.
+ *
+ * When jump hosts are configured the connection is tunneled through each of
+ * them in turn, the same way OpenSSH ProxyJump does. The jump host
+ * connections are closed together with the target connection.
+ */
+export async function connect(ssh: NodeSSH, data: IDataObject): Promise<ConnectResult> {
+	const jumpHosts = getJumpHosts(data);
+	const hops: NodeSSH[] = [];
+	let sock: Config['sock'];
+
+	try {
+		for (let i = 0; i < jumpHosts.length; i++) {
+			const hop = new NodeSSH();
+			hops.push(hop);
+
+			try {
+				await connectDirect(
+					hop,
+					{ keepaliveInterval: data.keepaliveInterval, ...jumpHosts[i] },
+					sock,
+				);
+			} catch (error) {
+				error.message = `Jump host ${jumpHosts[i].host}: ${error.message}`;
+				throw error;
+			}
+
+			const next = jumpHosts[i + 1] ?? data;
+			sock = await hop.forwardOut('127.0.0.1', 0, next.host as string, (next.port as number) ?? 22);
+		}
+
+		const result = await connectDirect(ssh, data, sock);
+
+		ssh.connection?.once('close', () => hops.forEach((hop) => hop.dispose()));
+
+		return result;
+	} catch (error) {
+		hops.forEach((hop) => hop.dispose());
+		throw error;
+	}
+}
@@ -0,0 +1,213 @@
+import type { IDataObject } from 'n8n-workflow';
+import type { NodeSSH } from 'node-ssh';
+import type { SFTPWrapper } from 'ssh2';
+
+import { getJumpHosts } from './connection';
+import { SshError } from './errors';
+import { execCommand, withRemoteTempDirectory } from './exec';
+import { stat, writeRemoteFile } from './sftp';
+import type { ChecksumAlgorithm, TransferOptions, TransferResult } from './transfer';
+import { getRemoteChecksum, uploadRemoteFile } from './transfer';
+import { formatPrivateKey, shellQuote } from './utilities';
+
+export type CopyMethod = 'stream' | 'scp';
+
+export interface CopyEndpoint {
+	ssh: NodeSSH;
+	getSftp: () => Promise<SFTPWrapper>;
+}
+
+export interface CopyOptions {
+	method?: CopyMethod;
+	checksum?: ChecksumAlgorithm;
+	/** Copies to a partial file next to the target that is renamed into place, only when streaming */
+	atomic?: boolean;
+	abortSignal?: AbortSignal;
+	onProgress?: TransferOptions['onProgress'];
+}
+
+export interface CopyResult extends TransferResult {
+	method: CopyMethod;
+	/** Milliseconds the copy took */
+	duration: number;
+}
+
+// Options of scp for the host key of the destination, by host key policy
+function getHostKeyOptions(data: IDataObject, knownHostsPath: string): string[] {
+	const policy = (data.hostKeyPolicy as string | undefined) ?? 'any';
+
+	if (policy === 'knownHosts') {
+		return ['-o StrictHostKeyChecking=yes', `-o UserKnownHostsFile=${shellQuote(knownHostsPath)}`];
+	}
+	if (policy === 'fingerprint') {
+		throw new Error(
+			'Pinned host key fingerprints of the destination cannot be checked by a direct copy. Use known hosts or stream the file instead',
+		);
+	}
+
+	return ['-o StrictHostKeyChecking=no', '-o UserKnownHostsFile=/dev/null'];
+}
+
+async function runOnSource(
+	ssh: NodeSSH,
+	command: string,
+	description: string,
+	abortSignal?: AbortSignal,
+): Promise<void> {
+	const result = await execCommand(ssh, command, { abortSignal });
+
+	if (result.code !== 0) {
+		throw new SshError(
+			`Failed to ${description}: ${result.stderr.trim() || `exit code ${result.code}`}`,
+			'COMMAND_FAILED',
+		);
+	}
+}
+
+/**
+ * Copy a file by running scp on the source server, which connects to the
+ * destination itself, so the data never passes through n8n. The private key,
+ * passphrase or password of the destination is placed in files only readable
+ * by the user in a temporary directory on the source server for the time of
+ * the copy, so it never shows up in the command lines of the processes there.
+ * Password authentication needs sshpass on the source server.
+ */
+async function copyWithScp(
+	source: CopyEndpoint,
+	sourcePath: string,
+	destinationData: IDataObject,
+	destinationPath: string,
+	abortSignal?: AbortSignal,
+): Promise<void> {
+	if (getJumpHosts(destinationData).length) {
+		throw new Error('Jump hosts of the destination are not supported by a direct copy');
+	}
+
+	const host = destinationData.host as string;
+	const target = `${destinationData.username}@${host.includes(':') ? `[${host}]` : host}`;
+
+	await withRemoteTempDirectory(source.ssh, async (directory) => {
+		const sftp = await source.getSftp();
+		const knownHostsPath = `${directory}/known_hosts`;
+		const keyPath = `${directory}/id`;
+		const secretPath = `${directory}/secret`;
+		const options = [
+			`-P ${Number(destinationData.port ?? 22)}`,
+			...getHostKeyOptions(destinationData, knownHostsPath),
+		];
+		let prefix = '';
+
+		if (destinationData.hostKeyPolicy === 'knownHosts') {
+			await writeRemoteFile(sftp, knownHostsPath, (destinationData.knownHosts as string) ?? '');
+		}
+
+		if (destinationData.privateKey) {
+			await writeRemoteFile(
+				sftp,
+				keyPath,
+				`${formatPrivateKey(destinationData.privateKey as string)}\n`,
+				0o600,
+			);
+
+			// scp cannot be given the passphrase, so the copy of the key loses it.
+			// ssh-keygen reads the old passphrase from stdin when it has no terminal.
+			if (destinationData.passphrase) {
+				await writeRemoteFile(sftp, secretPath, `${destinationData.passphrase}\n`, 0o600);
+				await runOnSource(
+					source.ssh,
+					`ssh-keygen -p -q -N '' -f ${shellQuote(keyPath)} < ${shellQuote(secretPath)}`,
+					'remove the passphrase from the private key',
+				);
+			}
+
+			options.push('-o BatchMode=yes', '-o IdentitiesOnly=yes', `-i ${shellQuote(keyPath)}`);
+		} else {
+			await runOnSource(
+				source.ssh,
+				'command -v sshpass',
+				'find sshpass, which copies with a password need on the source server',
+			);
+
+			await writeRemoteFile(sftp, secretPath, (destinationData.password as string) ?? '', 0o600);
+			prefix = `sshpass -f ${shellQuote(secretPath)} `;
+			options.push('-o PubkeyAuthentication=no');
+		}
+
+		await runOnSource(
+			source.ssh,
+			`${prefix}scp -q ${options.join(' ')} ${shellQuote(sourcePath)} ${shellQuote(
+				`${target}:${destinationPath}`,
+			)}`,
+			`copy "${sourcePath}" to ${host}`,
+			abortSignal,
+		);
+	});
+}
+
+/**
+ * Copy a file from one server to another. By default the file is streamed
+ * from the SFTP session of the source into the one of the destination, so it
+ * is never stored by n8n. The scp method has the source server send the file
+ * straight to the destination instead, which does not need a connection to
+ * the destination unless the checksum gets verified.
+ */
+export async function copyBetweenHosts(
+	source: CopyEndpoint,
+	sourcePath: string,
+	destination: CopyEndpoint | undefined,
+	destinationData: IDataObject,
+	destinationPath: string,
+	options: CopyOptions = {},
+): Promise<CopyResult> {
+	const { method = 'stream', checksum, onProgress } = options;
+	const startTime = Date.now();
+	const sourceSftp = await source.getSftp();
+	const { size } = await stat(sourceSftp, sourcePath);
+	let result: TransferResult;
+
+	if (method === 'stream') {
+		if (!destination) {
+			throw new Error('Streaming a copy needs a connection to the destination');
+		}
+
+		result = await uploadRemoteFile(
+			destination.ssh,
+			await destination.getSftp(),
+			sourceSftp.createReadStream(sourcePath),
+			destinationPath,
+			{
+				checksum,
+				atomic: options.atomic,
+				onProgress: (bytes) => onProgress?.(bytes, size),
+			},
+		);
+	} else {
+		await copyWithScp(source, sourcePath, destinationData, destinationPath, options.abortSignal);
+
+		result = { size, bytesTransferred: size };
+
+		if (checksum) {
+			if (!destination) {
+				throw new Error('Verifying the checksum of a copy needs a connection to the destination');
+			}
+
+			result.checksum = await getRemoteChecksum(destination.ssh, destinationPath, checksum);
+			result.checksumAlgorithm = checksum;
+		}
+	}
+
+	// The checksum of the copy is compared with the one of the source as well,
+	// which catches files that changed while they were copied
+	if (checksum && result.checksum) {
+		const sourceChecksum = await getRemoteChecksum(source.ssh, sourcePath, checksum);
+
+		if (sourceChecksum !== result.checksum) {
+			throw new SshError(
+				`The ${checksum} checksum of the copy (${result.checksum}) does not match the one of "${sourcePath}" on the source (${sourceChecksum})`,
+				'CHECKSUM_MISMATCH',
+			);
+		}
+	}
+
+	return { ...result, method, duration: Date.now() - startTime };
+}
@@ -0,0 +1,149 @@
+interface DiffLine {
+	type: ' ' | '-' | '+';
+	line: string;
+}
+
+export interface DiffOptions {
+	oldName?: string;
+	newName?: string;
+	/** Number of unchanged lines shown around every change */
+	context?: number;
+	/** Changed regions with more lines than this on either side are not diffed */
+	maxLines?: number;
+}
+
+function splitDiffLines(text: string): string[] {
+	const lines = text.split('\n');
+	if (lines[lines.length - 1] === '') lines.pop();
+	return lines;
+}
+
+function diffLines(
+	oldLines: string[],
+	newLines: string[],
+	maxLines: number,
+): DiffLine[] | undefined {
+	// Only the region between the common head and tail has to be compared
+	let head = 0;
+	while (head < oldLines.length && head < newLines.length && oldLines[head] === newLines[head]) {
+		head++;
+	}
+
+	let tail = 0;
+	while (
+		tail < oldLines.length - head &&
+		tail < newLines.length - head &&
+		oldLines[oldLines.length - 1 - tail] === newLines[newLines.length - 1 - tail]
+	) {
+		tail++;
+	}
+
+	const oldMiddle = oldLines.slice(head, oldLines.length - tail);
+	const newMiddle = newLines.slice(head, newLines.length - tail);
+
+	if (oldMiddle.length > maxLines || newMiddle.length > maxLines) {
+		return undefined;
+	}
+
+	// Longest common subsequence of the changed region, filled from the end so
+	// the edit script can be read forwards
+	const width = newMiddle.length + 1;
+	const lengths = new Uint32Array((oldMiddle.length + 1) * width);
+
+	for (let i = oldMiddle.length - 1; i >= 0; i--) {
+		for (let j = newMiddle.length - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				oldMiddle[i] === newMiddle[j]
+					? lengths[(i + 1) * width + j + 1] + 1
+					: Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+		}
+	}
+
+	const result: DiffLine[] = oldLines.slice(0, head).map((line) => ({ type: ' ', line }));
+	let i = 0;
+	let j = 0;
+
+	while (i < oldMiddle.length || j < newMiddle.length) {
+		if (i < oldMiddle.length && j < newMiddle.length && oldMiddle[i] === newMiddle[j]) {
+			result.push({ type: ' ', line: oldMiddle[i++] });
+			j++;
+		} else if (
+			j >= newMiddle.length ||
+			(i < oldMiddle.length && lengths[(i + 1) * width + j] >= lengths[i * width + j + 1])
+		) {
+			result.push({ type: '-', line: oldMiddle[i++] });
+		} else {
+			result.push({ type: '+', line: newMiddle[j++] });
+		}
+	}
+
+	for (const line of oldLines.slice(oldLines.length - tail)) {
+		result.push({ type: ' ', line });
+	}
+
+	return result;
+}
+
+/**
+ * Create a unified diff between two texts like `diff -u` does. Returns an
+ * empty string for equal texts and undefined when the changes are too large
+ * to be compared.
+ */
+export function createUnifiedDiff(
+	oldText: string,
+	newText: string,
+	options: DiffOptions = {},
+): string | undefined {
+	const { oldName = 'a', newName = 'b', context = 3, maxLines = 2000 } = options;
+	const lines = diffLines(splitDiffLines(oldText), splitDiffLines(newText), maxLines);
+
+	if (!lines) return undefined;
+
+	// Position of every line in the old and the new text
+	const oldPositions: number[] = [];
+	const newPositions: number[] = [];
+	let oldCount = 0;
+	let newCount = 0;
+
+	for (const { type } of lines) {
+		oldPositions.push(oldCount);
+		newPositions.push(newCount);
+		if (type !== '+') oldCount++;
+		if (type !== '-') newCount++;
+	}
+
+	const hunks: string[] = [];
+	let index = 0;
+
+	while (index < lines.length) {
+		if (lines[index].type === ' ') {
+			index++;
+			continue;
+		}
+
+		// Changes closer to each other than twice the context share a hunk
+		let lastChange = index;
+		for (let k = index; k < lines.length && k - lastChange <= 2 * context; k++) {
+			if (lines[k].type !== ' ') lastChange = k;
+		}
+
+		const start = Math.max(0, index - context);
+		const end = Math.min(lines.length, lastChange + context + 1);
+		const hunk = lines.slice(start, end);
+		const oldLength = hunk.filter(({ type }) => type !== '+').length;
+		const newLength = hunk.filter(({ type }) => type !== '-').length;
+		const oldStart = oldPositions[start] + (oldLength ? 1 : 0);
+		const newStart = newPositions[start] + (newLength ? 1 : 0);
+
+		hunks.push(
+			`@@ -${oldStart},${oldLength} +${newStart},${newLength} @@`,
+			...hunk.map(({ type, line }) => `${type}${line}`),
+		);
+
+		index = end;
+	}
+
+	if (!hunks.length) return '';
+
+	return [`--- ${oldName}`, `+++ ${newName}`, ...hunks].join('\n');
+}
@@ -0,0 +1,117 @@
+import type { INode } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+
+export type SshErrorCode =
+	| 'AUTH_FAILED'
+	| 'HOST_UNREACHABLE'
+	| 'DNS_FAILURE'
+	| 'CONNECTION_TIMEOUT'
+	| 'HOST_KEY_MISMATCH'
+	| 'PERMISSION_DENIED'
+	| 'NO_SUCH_FILE'
+	| 'COMMAND_TIMEOUT'
+	| 'COMMAND_FAILED'
+	| 'CHECKSUM_MISMATCH'
+	| 'UNKNOWN';
+
+/**
+ * Error for failures the node detects itself, carrying their code
+ */
+export class SshError extends Error {
+	constructor(
+		message: string,
+		readonly errorCode: SshErrorCode,
+	) {
+		super(message);
+		this.name = 'SshError';
+	}
+}
+
+// Codes of Node.js socket and file errors
+const SYSTEM_ERROR_CODES: Record<string, SshErrorCode> = {
+	ENOTFOUND: 'DNS_FAILURE',
+	EAI_AGAIN: 'DNS_FAILURE',
+	EAI_NONAME: 'DNS_FAILURE',
+	ECONNREFUSED: 'HOST_UNREACHABLE',
+	ECONNRESET: 'HOST_UNREACHABLE',
+	EHOSTDOWN: 'HOST_UNREACHABLE',
+	EHOSTUNREACH: 'HOST_UNREACHABLE',
+	ENETUNREACH: 'HOST_UNREACHABLE',
+	ETIMEDOUT: 'CONNECTION_TIMEOUT',
+	ENOENT: 'NO_SUCH_FILE',
+	EACCES: 'PERMISSION_DENIED',
+	EPERM: 'PERMISSION_DENIED',
+};
+
+// Status codes of SFTP errors
+const SFTP_ERROR_CODES: Record<number, SshErrorCode> = {
+	2: 'NO_SUCH_FILE',
+	3: 'PERMISSION_DENIED',
+};
+
+// Errors that only come with a message
+const MESSAGE_ERROR_CODES: Array<[RegExp, SshErrorCode]> = [
+	[/authentication methods failed|authentication failed/i, 'AUTH_FAILED'],
+	[/host key verification failed/i, 'HOST_KEY_MISMATCH'],
+	[/timed out while waiting for handshake/i, 'CONNECTION_TIMEOUT'],
+	[/no such file/i, 'NO_SUCH_FILE'],
+	[/permission denied/i, 'PERMISSION_DENIED'],
+];
+
+/**
+ * Classify an error of a connection, a command or a file operation, so
+ * workflows can tell e.g. a wrong password from an unreachable host
+ */
+export function getErrorCode(error: unknown): SshErrorCode {
+	const { errorCode, context, level, code, message } = (error ?? {}) as {
+		errorCode?: SshErrorCode;
+		context?: { errorCode?: SshErrorCode };
+		level?: string;
+		code?: string | number;
+		message?: string;
+	};
+
+	if (context?.errorCode) return context.errorCode;
+	if (errorCode) return errorCode;
+
+	// ssh2 tells the stage of the connection that failed
+	if (level === 'client-authentication') return 'AUTH_FAILED';
+	if (level === 'client-timeout') return 'CONNECTION_TIMEOUT';
+
+	if (typeof code === 'string' && SYSTEM_ERROR_CODES[code]) return SYSTEM_ERROR_CODES[code];
+	if (typeof code === 'number' && SFTP_ERROR_CODES[code]) return SFTP_ERROR_CODES[code];
+
+	for (const [pattern, messageCode] of MESSAGE_ERROR_CODES) {
+		if (pattern.test(message ?? '')) return messageCode;
+	}
+
+	return 'UNKNOWN';
+}
+
+/**
+ * Turn an error into a NodeOperationError whose description starts with the
+ * error code. The code is kept in the context of the error as well.
+ */
+export function toNodeOperationError(
+	node: INode,
+	error: Error,
+	options: { itemIndex?: number; message?: string; description?: string } = {},
+): NodeOperationError {
+	const errorCode = getErrorCode(error);
+	const nodeError =
+		error instanceof NodeOperationError
+			? error
+			: new NodeOperationError(node, options.message ?? error.message, {
+					itemIndex: options.itemIndex,
+					description: options.description,
+				});
+
+	if (!nodeError.context.errorCode) {
+		nodeError.context.errorCode = errorCode;
+		nodeError.description = [`Error code: ${errorCode}`, nodeError.description]
+			.filter(Boolean)
+			.join('\n');
+	}
+
+	return nodeError;
+}
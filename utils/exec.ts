@@ -0,0 +1,255 @@
+import type { NodeSSH, SSHExecCommandResponse } from 'node-ssh';
+import type { ClientChannel, PseudoTtyOptions, SFTPWrapper } from 'ssh2';
+import { PassThrough } from 'stream';
+
+import { removePath, writeRemoteFile } from './sftp';
+import { formatEnvironment, shellQuote } from './utilities';
+
+export interface CommandOptions {
+	cwd?: string;
+	/** Milliseconds after which the remote process gets terminated, 0 disables the timeout */
+	timeout?: number;
+	/** Milliseconds between the TERM and the KILL signal */
+	killGracePeriod?: number;
+	/** Aborts the command the same way a timeout does, e.g. when the execution gets cancelled */
+	abortSignal?: AbortSignal;
+	/** Allocates a pseudo terminal, stderr is then merged into stdout */
+	pty?: PseudoTtyOptions;
+	/** Runs the command through sudo and answers its password prompt */
+	sudo?: boolean;
+	sudoPassword?: string;
+}
+
+export interface CommandResult extends SSHExecCommandResponse {
+	timedOut: boolean;
+	aborted?: boolean;
+}
+
+// The command reports the PID of its shell on stderr behind this marker so it
+// can be signalled later. node-ssh closes stdin right after starting the
+// command, after which ssh2 refuses to send channel signals, and many servers
+// ignore those anyway.
+const PID_MARKER = '__N8N_SSH_PID__';
+const PID_PATTERN = new RegExp(`${PID_MARKER}(\\d+)\\r?\\n?`);
+
+// sudo is told to use this prompt so it can be recognized in any locale
+const SUDO_PROMPT = '__N8N_SSH_SUDO_PROMPT__';
+const SUDO_PROMPT_PATTERN = new RegExp(`${SUDO_PROMPT}\\r?\\n?`, 'g');
+
+// How long to wait for the channel to close after the KILL signal before
+// giving up on it and returning what was received so far
+const CLOSE_TIMEOUT = 2000;
+
+/**
+ * Run a command and wait for it to finish. When the timeout expires or the
+ * abort signal fires, the process group of the command is sent TERM and, after
+ * the grace period, KILL before the channel gets closed. The output received
+ * up to that point is returned instead of waiting forever.
+ */
+export async function execCommand(
+	ssh: NodeSSH,
+	command: string,
+	options: CommandOptions = {},
+): Promise<CommandResult> {
+	const { timeout = 0, killGracePeriod = 5000, abortSignal, pty, sudo, sudoPassword } = options;
+
+	if (!timeout && !abortSignal && !pty && !sudo) {
+		return { ...(await ssh.execCommand(command, { cwd: options.cwd })), timedOut: false };
+	}
+
+	let channel: ClientChannel | undefined;
+	let pid: string | undefined;
+	let stdout = '';
+	let stderr = '';
+	let timedOut = false;
+	let aborted = false;
+	let terminating = false;
+	let passwordSent = false;
+	const timers: NodeJS.Timeout[] = [];
+
+	// sudo reads the password from stdin, which has to stay open until the
+	// prompt shows up
+	const stdin = sudo ? new PassThrough() : undefined;
+
+	let forceResolve: (() => void) | undefined;
+	const forced = new Promise<undefined>((resolve) => (forceResolve = () => resolve(undefined)));
+
+	const signalProcess = async (signal: 'TERM' | 'KILL') => {
+		if (!pid) return;
+
+		// The shell is the session leader on the server, so signalling its
+		// process group also reaches the processes it started
+		await ssh
+			.execCommand(`kill -${signal} -${pid} 2>/dev/null || kill -${signal} ${pid} 2>/dev/null`)
+			.catch(() => undefined);
+	};
+
+	const terminate = () => {
+		if (terminating) return;
+		terminating = true;
+
+		void signalProcess('TERM');
+		timers.push(
+			setTimeout(() => {
+				void signalProcess('KILL').finally(() => {
+					channel?.close();
+					timers.push(setTimeout(() => forceResolve?.(), CLOSE_TIMEOUT));
+				});
+			}, killGracePeriod),
+		);
+	};
+
+	const onAbort = () => {
+		aborted = true;
+		terminate();
+	};
+
+	// With a PTY everything arrives on stdout, so both streams are watched for
+	// the PID and the sudo prompt
+	const onOutput = () => {
+		pid ??= PID_PATTERN.exec(stderr)?.[1] ?? PID_PATTERN.exec(stdout)?.[1];
+
+		// Only the first prompt is answered and stdin is closed right after, so a
+		// wrong password makes sudo fail instead of waiting for another try
+		if (stdin && !passwordSent && (stdout + stderr).includes(SUDO_PROMPT)) {
+			stdin.end(`${sudoPassword ?? ''}\n`);
+			passwordSent = true;
+		}
+	};
+
+	// sudo -S does not switch off the terminal echo, so with a PTY the password
+	// shows up right after the prompt, and only there it gets removed
+	const promptPattern =
+		sudo && pty && sudoPassword
+			? new RegExp(
+					`${SUDO_PROMPT}(?:${sudoPassword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')})?\\r?\\n?`,
+					'g',
+				)
+			: SUDO_PROMPT_PATTERN;
+
+	const clean = (output: string) => {
+		let cleaned = output.replace(PID_PATTERN, '').replace(promptPattern, '');
+
+		if (pty) {
+			cleaned = cleaned.replace(/\r\n/g, '\n');
+		}
+
+		return cleaned.trim();
+	};
+
+	if (timeout > 0) {
+		timers.push(
+			setTimeout(() => {
+				timedOut = true;
+				terminate();
+			}, timeout),
+		);
+	}
+
+	abortSignal?.addEventListener('abort', onAbort);
+
+	try {
+		if (abortSignal?.aborted) {
+			throw new Error('The execution was cancelled');
+		}
+
+		// Without a PTY the command itself gets no stdin, like outside of sudo mode
+		const remoteCommand = sudo
+			? `sudo -S -p '${SUDO_PROMPT}' -- sh -c ${shellQuote(pty ? command : `exec </dev/null; ${command}`)}`
+			: command;
+
+		const result = await Promise.race([
+			ssh.execCommand(`printf '${PID_MARKER}%s\\n' "$$" >&2; ${remoteCommand}`, {
+				cwd: options.cwd,
+				stdin,
+				execOptions: pty ? { pty } : undefined,
+				onChannel: (clientChannel) => (channel = clientChannel),
+				onStdout: (chunk) => {
+					stdout += chunk.toString();
+					onOutput();
+				},
+				onStderr: (chunk) => {
+					stderr += chunk.toString();
+					onOutput();
+				},
+			}),
+			forced,
+		]);
+
+		// The channel did not close in time, fall back to the output received so far
+		const response = result ?? { stdout, stderr, code: null, signal: 'KILL' };
+
+		return {
+			...response,
+			stdout: clean(response.stdout),
+			stderr: clean(response.stderr),
+			timedOut,
+			...(aborted ? { aborted } : {}),
+		};
+	} finally {
+		timers.forEach((timer) => clearTimeout(timer));
+		abortSignal?.removeEventListener('abort', onAbort);
+		stdin?.end();
+	}
+}
+
+export interface ScriptOptions extends CommandOptions {
+	/** Command the script file is passed to, e.g. "bash" or "/usr/bin/env ruby" */
+	interpreter: string;
+	args?: string[];
+	env?: Array<{ name: string; value: string }>;
+}
+
+/**
+ * Upload a script to a temporary file on the server, run it with the given
+ * interpreter, arguments and environment, and remove it again afterwards
+ */
+export async function runScript(
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	script: string,
+	options: ScriptOptions,
+): Promise<CommandResult> {
+	const temp = await ssh.execCommand('mktemp "${TMPDIR:-/tmp}/n8n-ssh-script.XXXXXXXX"');
+	const scriptPath = temp.stdout;
+
+	if (temp.code !== 0 || !scriptPath) {
+		throw new Error(`Could not create a temporary file for the script: ${temp.stderr}`);
+	}
+
+	try {
+		await writeRemoteFile(sftp, scriptPath, script, 0o700);
+
+		const command = [
+			`${formatEnvironment(options.env ?? [])}${options.interpreter}`,
+			shellQuote(scriptPath),
+			...(options.args ?? []).map(shellQuote),
+		].join(' ');
+
+		return await execCommand(ssh, command, options);
+	} finally {
+		await removePath(sftp, scriptPath, false).catch(() => undefined);
+	}
+}
+
+/**
+ * Run a function with a new temporary directory on the server, which gets
+ * removed with everything in it afterwards
+ */
+export async function withRemoteTempDirectory<T>(
+	ssh: NodeSSH,
+	fn: (directory: string) => Promise<T>,
+): Promise<T> {
+	const temp = await ssh.execCommand('mktemp -d "${TMPDIR:-/tmp}/n8n-ssh-XXXXXXXX"');
+	const directory = temp.stdout.trim();
+
+	if (temp.code !== 0 || !directory) {
+		throw new Error(`Could not create a temporary directory on the server: ${temp.stderr}`);
+	}
+
+	try {
+		return await fn(directory);
+	} finally {
+		await ssh.execCommand(`rm -rf -- ${shellQuote(directory)}`).catch(() => undefined);
+	}
+}
@@ -0,0 +1,182 @@
+export type TruncationStrategy = 'head' | 'tail' | 'headAndTail';
+
+export interface OutputShapingOptions {
+	/** Maximum size of the returned text in bytes, 0 for no limit */
+	maxBytes?: number;
+	/** Maximum number of returned lines, 0 for no limit */
+	maxLines?: number;
+	/** Which part of the output is kept when it gets truncated */
+	strategy?: TruncationStrategy;
+	stripAnsi?: boolean;
+	collapseRepeatedLines?: boolean;
+}
+
+export interface ShapedOutput {
+	text: string;
+	truncated: boolean;
+	originalBytes: number;
+	originalLines: number;
+	omittedLines: number;
+	omittedBytes: number;
+}
+
+// CSI sequences like colors and cursor movement, OSC sequences like window
+// titles and the remaining two character escape sequences
+const ANSI_PATTERN =
+	// eslint-disable-next-line no-control-regex
+	/\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+function countLines(text: string): number {
+	if (!text) return 0;
+	return text.split('\n').length - (text.endsWith('\n') ? 1 : 0);
+}
+
+/**
+ * Remove ANSI escape sequences and the parts of lines that were overwritten
+ * with a carriage return, like the intermediate states of progress bars
+ */
+export function stripAnsi(text: string): string {
+	return text
+		.replace(ANSI_PATTERN, '')
+		.split('\n')
+		.map((line) => {
+			const withoutCr = line.endsWith('\r') ? line.slice(0, -1) : line;
+			return withoutCr.slice(withoutCr.lastIndexOf('\r') + 1);
+		})
+		.join('\n');
+}
+
+/**
+ * Replace runs of identical lines with the line and a note how often it repeats
+ */
+export function collapseRepeatedLines(text: string): string {
+	const lines = text.split('\n');
+	const result: string[] = [];
+	let index = 0;
+
+	while (index < lines.length) {
+		let end = index + 1;
+		while (end < lines.length && lines[end] === lines[index]) end++;
+
+		result.push(lines[index]);
+		if (end - index > 1) {
+			result.push(`[previous line repeated ${end - index - 1} more times]`);
+		}
+
+		index = end;
+	}
+
+	return result.join('\n');
+}
+
+function truncateLines(
+	text: string,
+	maxLines: number,
+	strategy: TruncationStrategy,
+): { text: string; omittedLines: number } {
+	const lines = text.split('\n');
+	if (lines.length <= maxLines) return { text, omittedLines: 0 };
+
+	const omittedLines = lines.length - maxLines;
+	const marker = `[... ${omittedLines} lines omitted ...]`;
+
+	if (strategy === 'head') {
+		return { text: [...lines.slice(0, maxLines), marker].join('\n'), omittedLines };
+	}
+	if (strategy === 'tail') {
+		return { text: [marker, ...lines.slice(-maxLines)].join('\n'), omittedLines };
+	}
+
+	const headLines = Math.ceil(maxLines / 2);
+	const tailLines = maxLines - headLines;
+
+	return {
+		text: [
+			...lines.slice(0, headLines),
+			marker,
+			...(tailLines ? lines.slice(-tailLines) : []),
+		].join('\n'),
+		omittedLines,
+	};
+}
+
+function truncateBytes(
+	text: string,
+	maxBytes: number,
+	strategy: TruncationStrategy,
+): { text: string; omittedBytes: number } {
+	const buffer = Buffer.from(text);
+	if (buffer.length <= maxBytes) return { text, omittedBytes: 0 };
+
+	// Cuts are moved to character boundaries so no character gets split
+	const headEnd = (end: number) => {
+		while (end > 0 && (buffer[end] & 0xc0) === 0x80) end--;
+		return end;
+	};
+	const tailStart = (start: number) => {
+		while (start < buffer.length && (buffer[start] & 0xc0) === 0x80) start++;
+		return start;
+	};
+
+	const cut = (head: Buffer, tail: Buffer) => {
+		const omittedBytes = buffer.length - head.length - tail.length;
+		const marker = `[... ${omittedBytes} bytes omitted ...]`;
+
+		return {
+			text: [head.toString(), marker, tail.toString()].filter(Boolean).join('\n'),
+			omittedBytes,
+		};
+	};
+	const empty = Buffer.alloc(0);
+
+	if (strategy === 'head') {
+		return cut(buffer.subarray(0, headEnd(maxBytes)), empty);
+	}
+	if (strategy === 'tail') {
+		return cut(empty, buffer.subarray(tailStart(buffer.length - maxBytes)));
+	}
+
+	const headBytes = Math.ceil(maxBytes / 2);
+
+	return cut(
+		buffer.subarray(0, headEnd(headBytes)),
+		buffer.subarray(tailStart(buffer.length - (maxBytes - headBytes))),
+	);
+}
+
+/**
+ * Shape command output so it fits into the context of an AI agent. ANSI
+ * sequences are stripped and repeated lines collapsed first, then the output
+ * is cut down to the line and byte limits with a marker where text was left
+ * out. The sizes of the original output are returned along with it.
+ */
+export function shapeOutput(text: string, options: OutputShapingOptions = {}): ShapedOutput {
+	const { maxBytes = 0, maxLines = 0, strategy = 'headAndTail' } = options;
+	const originalBytes = Buffer.byteLength(text);
+	const originalLines = countLines(text);
+	let omittedLines = 0;
+	let omittedBytes = 0;
+	let shaped = text;
+
+	if (options.stripAnsi) {
+		shaped = stripAnsi(shaped);
+	}
+	if (options.collapseRepeatedLines) {
+		shaped = collapseRepeatedLines(shaped);
+	}
+	if (maxLines > 0) {
+		({ text: shaped, omittedLines } = truncateLines(shaped, maxLines, strategy));
+	}
+	if (maxBytes > 0) {
+		({ text: shaped, omittedBytes } = truncateBytes(shaped, maxBytes, strategy));
+	}
+
+	return {
+		text: shaped,
+		truncated: omittedLines > 0 || omittedBytes > 0,
+		originalBytes,
+		originalLines,
+		omittedLines,
+		omittedBytes,
+	};
+}
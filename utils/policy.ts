@@ -0,0 +1,225 @@
+import { posix } from 'path';
+
+export type PolicyRule =
+	| 'allowedCommands'
+	| 'deniedCommands'
+	| 'blockedSyntax'
+	| 'environment'
+	| 'allowedDirectories';
+
+export interface CommandPolicy {
+	allowedCommands: string[];
+	deniedCommands: string[];
+	blockedSyntax: string[];
+	allowedDirectories: string[];
+}
+
+export interface PolicyViolation {
+	rule: PolicyRule;
+	pattern?: string;
+	message: string;
+}
+
+// Shell syntax that can be blocked, the operators used for redirects like
+// `2>&1` are not mistaken for background jobs
+const SHELL_SYNTAX: { [key: string]: { description: string; pattern: RegExp } } = {
+	background: { description: 'background jobs (&)', pattern: /(^|[^&<>])&(?![&>])/ },
+	chaining: {
+		description: 'command chaining (;, &&, || or a line break)',
+		pattern: /;|&&|\|\||\n/,
+	},
+	pipes: { description: 'pipes (|)', pattern: /(^|[^|])\|(?!\|)/ },
+	redirects: { description: 'redirects (< or >)', pattern: /[<>]/ },
+	subshells: { description: 'subshells and command substitution', pattern: /\$\(|`|[()]/ },
+};
+
+// Separators between the commands of a command line, each of the commands has
+// to be allowed on its own
+const COMMAND_SEPARATOR = /;|&&|\|\||\||(?<![<>])&(?!>)|\n/;
+
+// Command and process substitution run commands that are not separated from
+// the rest of the line, so the allowed commands cannot be checked for them
+const COMMAND_SUBSTITUTION = /\$\(|`|[<>]\(/;
+
+// Variables that change which program a command runs or run code of their own,
+// so an allowed command could be made to run anything. All LD_ variables of the
+// dynamic linker and exported bash functions are refused as well.
+const UNSAFE_ENVIRONMENT = new Set([
+	'BASH_ENV',
+	'BASHOPTS',
+	'CDPATH',
+	'ENV',
+	'GLOBIGNORE',
+	'IFS',
+	'NODE_OPTIONS',
+	'PATH',
+	'PERL5OPT',
+	'PROMPT_COMMAND',
+	'PS4',
+	'PYTHONPATH',
+	'PYTHONSTARTUP',
+	'SHELLOPTS',
+]);
+
+/**
+ * Split a multi-line policy field into its trimmed, non-empty lines
+ */
+export function splitLines(value: string | undefined): string[] {
+	return (value ?? '')
+		.split(/\r?\n/)
+		.map((line) => line.trim())
+		.filter((line) => line !== '');
+}
+
+function toRegExp(pattern: string): RegExp | undefined {
+	const match = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+	if (!match) return undefined;
+
+	try {
+		return new RegExp(match[1], match[2]);
+	} catch (error) {
+		throw new Error(`Invalid policy pattern "${pattern}": ${error.message}`);
+	}
+}
+
+function normalizeCommand(command: string): string {
+	return command.replace(/[ \t]+/g, ' ').trim();
+}
+
+function isAllowed(pattern: string, command: string): boolean {
+	const regExp = toRegExp(pattern);
+	if (regExp) return regExp.test(command);
+
+	return (
+		command.startsWith(pattern) &&
+		(command.length === pattern.length || /\s/.test(command.charAt(pattern.length)))
+	);
+}
+
+/**
+ * Return the first pattern a command line contains, or matches when the
+ * pattern is written as `/regex/flags`
+ */
+export function findMatchingPattern(patterns: string[], command: string): string | undefined {
+	const normalized = normalizeCommand(command);
+
+	return patterns.find((pattern) => {
+		const regExp = toRegExp(pattern);
+		return regExp ? regExp.test(normalized) : normalized.includes(normalizeCommand(pattern));
+	});
+}
+
+/**
+ * Check a command line against the policy. Plain text patterns allow commands
+ * that start with them and deny commands that contain them anywhere, patterns
+ * written as `/regex/flags` are regular expressions. With allowed commands,
+ * command and process substitution are refused as well. The shell syntax
+ * checks are skipped for command lines the node quoted itself.
+ */
+export function checkCommand(
+	policy: CommandPolicy,
+	command: string,
+	quoted = false,
+): PolicyViolation | undefined {
+	const normalized = normalizeCommand(command);
+
+	const denied = findMatchingPattern(policy.deniedCommands, command);
+	if (denied) {
+		return {
+			rule: 'deniedCommands',
+			pattern: denied,
+			message: `The command matches the denied pattern "${denied}"`,
+		};
+	}
+
+	if (!quoted) {
+		for (const name of policy.blockedSyntax) {
+			const syntax = SHELL_SYNTAX[name];
+			if (syntax?.pattern.test(command)) {
+				return {
+					rule: 'blockedSyntax',
+					pattern: name,
+					message: `The command uses ${syntax.description}, which is not allowed`,
+				};
+			}
+		}
+	}
+
+	if (policy.allowedCommands.length) {
+		if (!quoted && COMMAND_SUBSTITUTION.test(command)) {
+			return {
+				rule: 'allowedCommands',
+				message:
+					'The command uses command or process substitution, which is not allowed with allowed commands',
+			};
+		}
+
+		const commands = quoted ? [normalized] : normalized.split(COMMAND_SEPARATOR);
+
+		for (const part of commands.map((segment) => segment.trim()).filter(Boolean)) {
+			if (!policy.allowedCommands.some((pattern) => isAllowed(pattern, part))) {
+				return {
+					rule: 'allowedCommands',
+					message: `The command "${part}" does not match any of the allowed patterns`,
+				};
+			}
+		}
+	}
+
+	return undefined;
+}
+
+/**
+ * Check the names of the environment variables exported before a command.
+ * With allowed or denied commands, variables that can make a command run
+ * other programs or code are refused.
+ */
+export function checkEnvironment(
+	policy: CommandPolicy,
+	names: string[],
+): PolicyViolation | undefined {
+	if (!policy.allowedCommands.length && !policy.deniedCommands.length) return undefined;
+
+	const unsafe = names.find(
+		(name) =>
+			UNSAFE_ENVIRONMENT.has(name) || name.startsWith('LD_') || name.startsWith('BASH_FUNC_'),
+	);
+
+	return unsafe
+		? {
+				rule: 'environment',
+				pattern: unsafe,
+				message: `The environment variable ${unsafe} can change what the command runs, which is not allowed`,
+			}
+		: undefined;
+}
+
+/**
+ * Check that an absolute remote path lies inside one of the allowed
+ * directories. The path is normalized first so `..` cannot leave them.
+ */
+export function checkPath(policy: CommandPolicy, path: string): PolicyViolation | undefined {
+	if (!policy.allowedDirectories.length) return undefined;
+
+	if (!path.startsWith('/')) {
+		return {
+			rule: 'allowedDirectories',
+			message: `The path "${path}" has to be absolute when allowed directories are configured`,
+		};
+	}
+
+	const normalized = posix.normalize(path);
+
+	for (const directory of policy.allowedDirectories) {
+		const root = posix.normalize(directory).replace(/(.)\/+$/, '$1');
+
+		if (normalized === root || normalized.startsWith(root === '/' ? root : `${root}/`)) {
+			return undefined;
+		}
+	}
+
+	return {
+		rule: 'allowedDirectories',
+		message: `The path "${normalized}" is outside of the allowed directories`,
+	};
+}
@@ -0,0 +1,215 @@
+import type { IDataObject } from 'n8n-workflow';
+import { NodeSSH } from 'node-ssh';
+
+import { connect, getConnectionKey } from './connection';
+
+export interface PoolOptions {
+	/** Milliseconds an unused connection is kept open */
+	idleTimeout?: number;
+	/** Most connections open at the same time to one server with one credential */
+	maxConnections?: number;
+	/** Milliseconds between keepalive packets of pooled connections */
+	keepaliveInterval?: number;
+}
+
+export interface PooledConnection {
+	ssh: NodeSSH;
+	/** Give the connection back, or close it when it does not come from the pool */
+	release: () => void;
+}
+
+interface IdleConnection {
+	ssh: NodeSSH;
+	timer: NodeJS.Timeout;
+}
+
+interface HostPool {
+	idle: IdleConnection[];
+	/** Connections that are handed out or being opened or checked */
+	active: number;
+	waiters: Array<() => void>;
+	options: Required<PoolOptions>;
+}
+
+// How long a pooled connection may take to answer before it counts as broken
+const HEALTH_CHECK_TIMEOUT = 5000;
+
+const DEFAULT_POOL_OPTIONS: Required<PoolOptions> = {
+	idleTimeout: 5 * 60 * 1000,
+	maxConnections: 5,
+	keepaliveInterval: 15 * 1000,
+};
+
+// The pool lives at module level so connections outlast a single call of a node
+const pools = new Map<string, HostPool>();
+
+function notifyWaiter(pool: HostPool) {
+	pool.waiters.shift()?.();
+}
+
+/**
+ * Check that a connection still works by running a no-op command on it. The
+ * keepalive packets already end connections the server stopped answering, the
+ * command also catches ones that cannot open channels anymore.
+ */
+async function isHealthy(ssh: NodeSSH): Promise<boolean> {
+	if (!ssh.isConnected()) return false;
+
+	let timer: NodeJS.Timeout | undefined;
+
+	try {
+		const result = await Promise.race([
+			ssh.execCommand('true'),
+			new Promise<undefined>((resolve) => {
+				timer = setTimeout(() => resolve(undefined), HEALTH_CHECK_TIMEOUT);
+			}),
+		]);
+		return result?.code === 0;
+	} catch (error) {
+		return false;
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+function releaseConnection(key: string, pool: HostPool, ssh: NodeSSH) {
+	if (!ssh.isConnected()) {
+		pool.active--;
+		ssh.dispose();
+		notifyWaiter(pool);
+		return;
+	}
+
+	const idle: IdleConnection = {
+		ssh,
+		timer: setTimeout(() => {
+			pool.idle = pool.idle.filter((connection) => connection !== idle);
+			ssh.dispose();
+			notifyWaiter(pool);
+
+			if (!pool.idle.length && !pool.active && !pool.waiters.length) {
+				pools.delete(key);
+			}
+		}, pool.options.idleTimeout),
+	};
+	idle.timer.unref?.();
+
+	pool.active--;
+	pool.idle.push(idle);
+	notifyWaiter(pool);
+}
+
+/**
+ * Take a connection to the server of the connection data from the pool. An
+ * idle connection is checked before it is reused, otherwise a new one is
+ * opened. When the connections to the server are all in use, the call waits
+ * for one of them to be released.
+ */
+export async function acquireConnection(
+	data: IDataObject,
+	options: PoolOptions = {},
+): Promise<PooledConnection> {
+	// The key covers the credential, so connections are only shared by callers
+	// that could open them on their own
+	const key = getConnectionKey(data);
+	let pool = pools.get(key);
+
+	if (!pool) {
+		pool = { idle: [], active: 0, waiters: [], options: DEFAULT_POOL_OPTIONS };
+		pools.set(key, pool);
+	}
+	pool.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+
+	const hostPool = pool;
+	const handOut = (ssh: NodeSSH): PooledConnection => {
+		let released = false;
+
+		return {
+			ssh,
+			release: () => {
+				if (released) return;
+				released = true;
+				releaseConnection(key, hostPool, ssh);
+			},
+		};
+	};
+
+	for (;;) {
+		const idle = pool.idle.pop();
+
+		if (idle) {
+			clearTimeout(idle.timer);
+			pool.active++;
+
+			if (await isHealthy(idle.ssh)) {
+				return handOut(idle.ssh);
+			}
+
+			pool.active--;
+			idle.ssh.dispose();
+			continue;
+		}
+
+		if (pool.active < Math.max(pool.options.maxConnections, 1)) {
+			const ssh = new NodeSSH();
+			pool.active++;
+
+			try {
+				await connect(ssh, { ...data, keepaliveInterval: pool.options.keepaliveInterval });
+			} catch (error) {
+				pool.active--;
+				ssh.dispose();
+				notifyWaiter(pool);
+				throw error;
+			}
+
+			return handOut(ssh);
+		}
+
+		await new Promise<void>((resolve) => hostPool.waiters.push(resolve));
+	}
+}
+
+/**
+ * Open a connection, taking it from the pool when pool options are given.
+ * Releasing a connection that does not come from the pool closes it.
+ */
+export async function openConnection(
+	data: IDataObject,
+	poolOptions?: PoolOptions,
+): Promise<PooledConnection> {
+	if (poolOptions) {
+		return await acquireConnection(data, poolOptions);
+	}
+
+	const ssh = new NodeSSH();
+
+	try {
+		await connect(ssh, data);
+	} catch (error) {
+		ssh.dispose();
+		throw error;
+	}
+
+	return { ssh, release: () => ssh.dispose() };
+}
+
+/**
+ * Close all idle connections of the pool
+ */
+export function drainPool(): void {
+	for (const [key, pool] of pools) {
+		for (const { ssh, timer } of pool.idle) {
+			clearTimeout(timer);
+			ssh.dispose();
+		}
+		pool.idle = [];
+
+		if (!pool.active) {
+			pools.delete(key);
+		}
+	}
+}
+
+// Do not leave connections open when n8n shuts down
+process.once('exit', drainPool);
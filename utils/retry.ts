@@ -0,0 +1,76 @@
+import { getErrorCode } from './errors';
+
+export interface RetryOptions {
+	/** Attempts after the first one */
+	retries: number;
+	/** Milliseconds before the first retry, doubled for every further one */
+	initialDelay?: number;
+	/** Longest wait between two attempts in milliseconds */
+	maxDelay?: number;
+	/** Stops waiting for the next attempt, e.g. when the execution gets cancelled */
+	abortSignal?: AbortSignal;
+}
+
+// Messages of ssh2 and node-ssh when the connection ended during an operation
+const CONNECTION_LOST_PATTERN =
+	/not connected|no response from server|connection lost|channel open failure|socket hang up/i;
+
+/**
+ * Whether an error may go away when the same thing is tried again, like a
+ * refused connection while a server restarts. Failed authentication, host key
+ * mismatches and unknown host names are not.
+ */
+export function isTransientError(error: unknown): boolean {
+	const code = getErrorCode(error);
+
+	if (code === 'HOST_UNREACHABLE' || code === 'CONNECTION_TIMEOUT') return true;
+
+	// Only lookups that could not reach the name server, not unknown names
+	if (code === 'DNS_FAILURE') return (error as { code?: string }).code === 'EAI_AGAIN';
+
+	return code === 'UNKNOWN' && CONNECTION_LOST_PATTERN.test((error as Error)?.message ?? '');
+}
+
+async function sleep(milliseconds: number, abortSignal?: AbortSignal) {
+	await new Promise<void>((resolve) => {
+		const timer = setTimeout(done, milliseconds);
+
+		function done() {
+			clearTimeout(timer);
+			abortSignal?.removeEventListener('abort', done);
+			resolve();
+		}
+
+		abortSignal?.addEventListener('abort', done);
+	});
+}
+
+/**
+ * Call the function until it succeeds, retrying transient errors with an
+ * exponential backoff. The delays get a random jitter so items that failed
+ * together do not all retry at the same moment. The function is passed the
+ * number of the attempt, starting at 1.
+ */
+export async function withRetry<T>(
+	fn: (attempt: number) => Promise<T>,
+	options: RetryOptions,
+): Promise<T> {
+	const { retries, initialDelay = 1000, maxDelay = 30000, abortSignal } = options;
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn(attempt);
+		} catch (error) {
+			if (attempt > retries || !isTransientError(error) || abortSignal?.aborted) {
+				throw error;
+			}
+
+			const delay = Math.min(maxDelay, initialDelay * 2 ** (attempt - 1));
+			await sleep(delay / 2 + (Math.random() * delay) / 2, abortSignal);
+
+			if (abortSignal?.aborted) {
+				throw error;
+			}
+		}
+	}
+}
@@ -0,0 +1,254 @@
+import { randomBytes } from 'crypto';
+import type { NodeSSH } from 'node-ssh';
+import type { ClientChannel } from 'ssh2';
+
+import type { CommandResult } from './exec';
+import { shellQuote } from './utilities';
+
+export interface ShellSession {
+	key: string;
+	/** Identifies the server and user so a session is not reused for another one */
+	target: string;
+	ssh: NodeSSH;
+	channel: ClientChannel;
+	/** Working directory after the last command */
+	cwd?: string;
+	commandCount: number;
+	closed: boolean;
+	/** Exit code of the shell once it ended, e.g. after an `exit` command */
+	exitCode?: number;
+	idleTimeout: number;
+	idleTimer?: NodeJS.Timeout;
+	queue: Promise<unknown>;
+	stdout: string;
+	stderr: string;
+	onOutput?: () => void;
+}
+
+export interface SessionCommandOptions {
+	/** Milliseconds after which the session gets closed to stop the command, 0 disables it */
+	timeout?: number;
+	abortSignal?: AbortSignal;
+}
+
+export interface SessionCommandResult extends CommandResult {
+	cwd?: string;
+	sessionClosed: boolean;
+}
+
+// Sessions live at module level so they outlast a single call of the node
+const sessions = new Map<string, ShellSession>();
+
+// Prefer bash so `source`, arrays and the like work like in a login shell
+const SHELL_COMMAND =
+	'if command -v bash >/dev/null 2>&1; then exec bash --noprofile --norc; else exec sh; fi';
+
+function scheduleIdleClose(session: ShellSession) {
+	clearTimeout(session.idleTimer);
+
+	if (session.idleTimeout > 0) {
+		session.idleTimer = setTimeout(() => closeSession(session.key), session.idleTimeout);
+		session.idleTimer.unref?.();
+	}
+}
+
+/**
+ * Return the open session with the given key, if any
+ */
+export function getSession(key: string): ShellSession | undefined {
+	const session = sessions.get(key);
+	return session && !session.closed ? session : undefined;
+}
+
+/**
+ * Start a long-lived shell on a connected server and register it under the
+ * key. The session owns the connection and disposes it when it gets closed.
+ */
+export async function openSession(
+	key: string,
+	target: string,
+	ssh: NodeSSH,
+	idleTimeout: number,
+): Promise<ShellSession> {
+	closeSession(key);
+
+	const channel = await new Promise<ClientChannel>((resolve, reject) => {
+		if (!ssh.connection) {
+			reject(new Error('Not connected to server'));
+			return;
+		}
+		ssh.connection.exec(SHELL_COMMAND, (error, stream) =>
+			error ? reject(error) : resolve(stream),
+		);
+	});
+
+	const session: ShellSession = {
+		key,
+		target,
+		ssh,
+		channel,
+		commandCount: 0,
+		closed: false,
+		idleTimeout,
+		queue: Promise.resolve(),
+		stdout: '',
+		stderr: '',
+	};
+
+	channel.on('data', (chunk: Buffer) => {
+		session.stdout += chunk.toString();
+		session.onOutput?.();
+	});
+	channel.stderr.on('data', (chunk: Buffer) => {
+		session.stderr += chunk.toString();
+		session.onOutput?.();
+	});
+	channel.on('exit', (code: number | null) => {
+		if (code !== null) session.exitCode = code;
+	});
+	channel.on('close', () => closeSession(key));
+	ssh.connection?.once('close', () => closeSession(key));
+
+	sessions.set(key, session);
+	scheduleIdleClose(session);
+
+	return session;
+}
+
+/**
+ * Close a session and its connection. Returns whether the session was open.
+ */
+export function closeSession(key: string): boolean {
+	const session = sessions.get(key);
+	if (!session) return false;
+
+	sessions.delete(key);
+	clearTimeout(session.idleTimer);
+
+	const wasOpen = !session.closed;
+	session.closed = true;
+	session.onOutput?.();
+	session.channel.close();
+	session.ssh.dispose();
+
+	return wasOpen;
+}
+
+/**
+ * Close all sessions whose key starts with the prefix, e.g. the ones of an execution
+ */
+export function closeSessions(prefix: string): number {
+	let closed = 0;
+
+	for (const key of [...sessions.keys()]) {
+		if (key.startsWith(prefix) && closeSession(key)) closed++;
+	}
+
+	return closed;
+}
+
+async function runCommand(
+	session: ShellSession,
+	command: string,
+	options: SessionCommandOptions,
+): Promise<SessionCommandResult> {
+	const marker = `__N8N_SESSION_${randomBytes(8).toString('hex')}__`;
+	const stdoutEnd = new RegExp(`\\n${marker} (\\d+) (.*)\\n`);
+	const stderrEnd = `\n${marker}\n`;
+	const quoted = shellQuote(command);
+	let timedOut = false;
+	let aborted = false;
+	let timer: NodeJS.Timeout | undefined;
+
+	session.stdout = '';
+	session.stderr = '';
+	session.commandCount++;
+	clearTimeout(session.idleTimer);
+
+	// The command is checked for syntax errors first, which would otherwise end
+	// the shell, and runs in the shell itself so `cd` and `export` persist. Its
+	// stdin is closed so it cannot read the commands that follow.
+	session.channel.write(
+		`"$0" -n -c ${quoted} && eval ${quoted} </dev/null\n` +
+			`__n8n_status=$?; printf '\\n%s %s %s\\n' '${marker}' "$__n8n_status" "$PWD"; printf '\\n%s\\n' '${marker}' >&2\n`,
+	);
+
+	const onAbort = () => {
+		aborted = true;
+		closeSession(session.key);
+	};
+
+	try {
+		await new Promise<void>((resolve) => {
+			session.onOutput = () => {
+				if (
+					session.closed ||
+					(stdoutEnd.test(session.stdout) && session.stderr.includes(stderrEnd))
+				) {
+					resolve();
+				}
+			};
+			session.onOutput();
+
+			if (options.timeout) {
+				timer = setTimeout(() => {
+					timedOut = true;
+					closeSession(session.key);
+				}, options.timeout);
+			}
+
+			options.abortSignal?.addEventListener('abort', onAbort);
+		});
+	} finally {
+		clearTimeout(timer);
+		options.abortSignal?.removeEventListener('abort', onAbort);
+		session.onOutput = undefined;
+	}
+
+	const end = stdoutEnd.exec(session.stdout);
+	const stdout = end ? session.stdout.slice(0, end.index) : session.stdout;
+	const stderrIndex = session.stderr.indexOf(stderrEnd);
+	const stderr = stderrIndex >= 0 ? session.stderr.slice(0, stderrIndex) : session.stderr;
+
+	if (end) {
+		session.cwd = end[2];
+	}
+
+	if (!session.closed) {
+		scheduleIdleClose(session);
+	}
+
+	return {
+		stdout: stdout.trim(),
+		stderr: stderr.trim(),
+		code: end ? Number(end[1]) : session.exitCode ?? null,
+		signal: null,
+		timedOut,
+		...(aborted ? { aborted } : {}),
+		cwd: session.cwd,
+		sessionClosed: session.closed,
+	};
+}
+
+/**
+ * Run a command in a session. Commands of the same session run one after the
+ * other. As the command runs inside the shell of the session it cannot be
+ * signalled on its own, so a timeout or an abort closes the whole session.
+ */
+export async function runInSession(
+	session: ShellSession,
+	command: string,
+	options: SessionCommandOptions = {},
+): Promise<SessionCommandResult> {
+	if (session.closed) {
+		throw new Error(`The session "${session.key}" is closed`);
+	}
+
+	const result = session.queue.then(async () => await runCommand(session, command, options));
+	session.queue = result.catch(() => undefined);
+
+	return await result;
+}
+
+// Do not leave shells behind on the servers when n8n shuts down
+process.once('exit', () => closeSessions(''));
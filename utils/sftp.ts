@@ -0,0 +1,282 @@
+import { constants } from 'fs';
+import type { IDataObject } from 'n8n-workflow';
+import type { Attributes, FileEntryWithStats, SFTPWrapper, Stats } from 'ssh2';
+
+export type RemoteFileType = 'file' | 'directory' | 'symlink' | 'other';
+
+// SFTP status code the server answers with for paths that do not exist
+const SFTP_NO_SUCH_FILE = 2;
+
+/**
+ * Join a remote directory and a file name with exactly one slash between them
+ */
+export function joinRemotePath(directory: string, name: string): string {
+	return `${directory}${directory.charAt(directory.length - 1) === '/' ? '' : '/'}${name}`;
+}
+
+/**
+ * Return the last segment of a remote path
+ */
+export function remoteBasename(path: string): string {
+	return path.replace(/\/+$/, '').split('/').pop() || path;
+}
+
+/**
+ * Determine the entry type from the mode bits reported by the SFTP server
+ */
+export function getFileType(mode: number): RemoteFileType {
+	const type = mode & constants.S_IFMT;
+
+	if (type === constants.S_IFREG) return 'file';
+	if (type === constants.S_IFDIR) return 'directory';
+	if (type === constants.S_IFLNK) return 'symlink';
+
+	return 'other';
+}
+
+/**
+ * Format the permission bits of a mode as an octal string, e.g. "0755"
+ */
+export function formatMode(mode: number): string {
+	return (mode & 0o7777).toString(8).padStart(4, '0');
+}
+
+/**
+ * Format the permission bits of a mode the way `ls -l` does, e.g. "rwxr-xr-x"
+ */
+export function formatPermissions(mode: number): string {
+	const flags = ['r', 'w', 'x'];
+	let permissions = '';
+
+	for (let bit = 8; bit >= 0; bit--) {
+		permissions += mode & (1 << bit) ? flags[(8 - bit) % 3] : '-';
+	}
+
+	return permissions;
+}
+
+/**
+ * Turn SFTP attributes into the structured entry returned by the nodes
+ */
+export function formatEntry(path: string, attrs: Attributes, longname?: string): IDataObject {
+	const entry: IDataObject = {
+		name: remoteBasename(path),
+		path,
+		type: getFileType(attrs.mode),
+		size: attrs.size,
+		mode: formatMode(attrs.mode),
+		permissions: formatPermissions(attrs.mode),
+		uid: attrs.uid,
+		gid: attrs.gid,
+		modifiedAt: new Date(attrs.mtime * 1000).toISOString(),
+		accessedAt: new Date(attrs.atime * 1000).toISOString(),
+	};
+
+	// The long name is the `ls -l` line of the entry, which is the only place
+	// SFTP exposes the owner and group names instead of the numeric ids
+	if (longname) {
+		const columns = longname.split(/\s+/);
+		if (columns.length > 3) {
+			entry.owner = columns[2];
+			entry.group = columns[3];
+		}
+	}
+
+	return entry;
+}
+
+/**
+ * Promise wrapper around `lstat`, symbolic links are reported as such
+ */
+export async function lstat(sftp: SFTPWrapper, path: string): Promise<Stats> {
+	return await new Promise((resolve, reject) => {
+		sftp.lstat(path, (error, stats) => (error ? reject(error) : resolve(stats)));
+	});
+}
+
+/**
+ * Promise wrapper around `stat`, symbolic links are followed
+ */
+export async function stat(sftp: SFTPWrapper, path: string): Promise<Stats> {
+	return await new Promise((resolve, reject) => {
+		sftp.stat(path, (error, stats) => (error ? reject(error) : resolve(stats)));
+	});
+}
+
+/**
+ * Promise wrapper around `readdir`
+ */
+export async function readDirectory(
+	sftp: SFTPWrapper,
+	path: string,
+): Promise<FileEntryWithStats[]> {
+	return await new Promise((resolve, reject) => {
+		sftp.readdir(path, (error, list) => (error ? reject(error) : resolve(list)));
+	});
+}
+
+/**
+ * Check whether a remote path exists without following symbolic links
+ */
+export async function pathExists(sftp: SFTPWrapper, path: string): Promise<boolean> {
+	try {
+		await lstat(sftp, path);
+		return true;
+	} catch (error) {
+		return false;
+	}
+}
+
+/**
+ * List a remote directory, optionally descending into sub directories
+ */
+export async function listDirectory(
+	sftp: SFTPWrapper,
+	path: string,
+	options: { recursive?: boolean; includeHidden?: boolean } = {},
+): Promise<IDataObject[]> {
+	const entries: IDataObject[] = [];
+	const list = await readDirectory(sftp, path);
+
+	list.sort((a, b) => a.filename.localeCompare(b.filename));
+
+	for (const { filename, longname, attrs } of list) {
+		if (filename === '.' || filename === '..') continue;
+		if (!options.includeHidden && filename.startsWith('.')) continue;
+
+		const entryPath = joinRemotePath(path, filename);
+		entries.push(formatEntry(entryPath, attrs, longname));
+
+		if (options.recursive && getFileType(attrs.mode) === 'directory') {
+			entries.push(...(await listDirectory(sftp, entryPath, options)));
+		}
+	}
+
+	return entries;
+}
+
+/**
+ * Create a remote directory, creating missing parents when `recursive` is set
+ */
+export async function makeDirectory(
+	sftp: SFTPWrapper,
+	path: string,
+	recursive: boolean,
+): Promise<void> {
+	const mkdir = async (directory: string) =>
+		await new Promise<void>((resolve, reject) => {
+			sftp.mkdir(directory, (error) => (error ? reject(error) : resolve()));
+		});
+
+	if (!recursive) {
+		await mkdir(path);
+		return;
+	}
+
+	const segments = path.split('/');
+	let current = path.startsWith('/') ? '' : '.';
+
+	for (const segment of segments) {
+		if (!segment) continue;
+		current = current ? `${current}/${segment}` : `/${segment}`;
+
+		let stats: Stats | undefined;
+		try {
+			stats = await lstat(sftp, current);
+		} catch (error) {
+			if (error.code !== SFTP_NO_SUCH_FILE) throw error;
+		}
+
+		if (!stats) {
+			await mkdir(current);
+		} else if (!stats.isDirectory() && !stats.isSymbolicLink()) {
+			throw new Error(`"${current}" exists and is not a directory`);
+		}
+	}
+}
+
+/**
+ * Delete a remote file or directory, removing directory contents when `recursive` is set
+ */
+export async function removePath(
+	sftp: SFTPWrapper,
+	path: string,
+	recursive: boolean,
+): Promise<void> {
+	const stats = await lstat(sftp, path);
+
+	if (!stats.isDirectory()) {
+		await new Promise<void>((resolve, reject) => {
+			sftp.unlink(path, (error) => (error ? reject(error) : resolve()));
+		});
+		return;
+	}
+
+	if (recursive) {
+		for (const { filename } of await readDirectory(sftp, path)) {
+			if (filename === '.' || filename === '..') continue;
+			await removePath(sftp, joinRemotePath(path, filename), true);
+		}
+	}
+
+	await new Promise<void>((resolve, reject) => {
+		sftp.rmdir(path, (error) => (error ? reject(error) : resolve()));
+	});
+}
+
+/**
+ * Rename or move a remote path. With `overwrite` the OpenSSH POSIX rename
+ * extension is used so an existing target gets replaced atomically.
+ */
+export async function renamePath(
+	sftp: SFTPWrapper,
+	from: string,
+	to: string,
+	overwrite: boolean,
+): Promise<void> {
+	await new Promise<void>((resolve, reject) => {
+		const callback = (error: Error | null | undefined) => (error ? reject(error) : resolve());
+
+		if (overwrite) {
+			sftp.ext_openssh_rename(from, to, callback);
+		} else {
+			sftp.rename(from, to, callback);
+		}
+	});
+}
+
+/**
+ * Change the permissions of a remote path, descending into directories when `recursive` is set
+ */
+export async function changeMode(
+	sftp: SFTPWrapper,
+	path: string,
+	mode: number,
+	recursive: boolean,
+): Promise<void> {
+	await new Promise<void>((resolve, reject) => {
+		sftp.chmod(path, mode, (error) => (error ? reject(error) : resolve()));
+	});
+
+	if (recursive && (await lstat(sftp, path)).isDirectory()) {
+		for (const { filename, attrs } of await readDirectory(sftp, path)) {
+			if (filename === '.' || filename === '..') continue;
+			if (getFileType(attrs.mode) === 'symlink') continue;
+			await changeMode(sftp, joinRemotePath(path, filename), mode, true);
+		}
+	}
+}
+
+/**
+ * Write a string or buffer to a remote file, replacing its content
+ */
+export async function writeRemoteFile(
+	sftp: SFTPWrapper,
+	path: string,
+	data: string | Buffer,
+	mode = 0o644,
+): Promise<void> {
+	await new Promise<void>((resolve, reject) => {
+		sftp.writeFile(path, data, { mode }, (error) => (error ? reject(error) : resolve()));
+	});
+}
@@ -0,0 +1,276 @@
+import { createHash } from 'crypto';
+import type { IExecuteFunctions } from 'n8n-workflow';
+import { NodeOperationError } from 'n8n-workflow';
+import type { NodeSSH } from 'node-ssh';
+import type { SFTPWrapper } from 'ssh2';
+import type { Readable } from 'stream';
+
+import { joinRemotePath, makeDirectory, pathExists, removePath } from './sftp';
+import type { TransferOptions } from './transfer';
+import {
+	collectRemoteFiles,
+	getBinaryRelativePath,
+	matchesGlobs,
+	uploadRemoteFile,
+} from './transfer';
+import { shellQuote } from './utilities';
+
+export type SyncCompareMode = 'sizeAndMtime' | 'checksum';
+
+export interface SyncSourceFile {
+	relativePath: string;
+	size: number;
+	/** Modification time in seconds, unknown for input binaries */
+	mtime?: number;
+	/** SHA-256 checksum of the content */
+	checksum: () => Promise<string>;
+	open: () => Promise<Buffer | Readable>;
+}
+
+export interface SyncOptions {
+	compareBy?: SyncCompareMode;
+	/** Removes files below the target that the source does not have */
+	deleteExtraneous?: boolean;
+	/** Only plans the changes without making them */
+	dryRun?: boolean;
+	/** Glob patterns of files that are neither synced nor deleted */
+	exclude?: string[];
+	transferOptions?: TransferOptions;
+}
+
+export interface SyncChange {
+	action: 'create' | 'update' | 'delete';
+	relativePath: string;
+	remotePath: string;
+	size: number;
+}
+
+export interface SyncResult {
+	changes: SyncChange[];
+	created: number;
+	updated: number;
+	deleted: number;
+	unchanged: number;
+}
+
+async function hashStream(stream: Readable): Promise<string> {
+	const hash = createHash('sha256');
+
+	for await (const chunk of stream) {
+		hash.update(chunk as Buffer);
+	}
+
+	return hash.digest('hex');
+}
+
+/**
+ * Compute the SHA-256 checksums of all files below a remote directory in one
+ * command, keyed by their path relative to the directory
+ */
+export async function getRemoteChecksums(
+	ssh: NodeSSH,
+	directory: string,
+): Promise<Map<string, string>> {
+	const cd = `cd ${shellQuote(directory)}`;
+	const { stdout, stderr, code } = await ssh.execCommand(
+		`${cd} && find . -type f -exec sha256sum {} + 2>/dev/null || (${cd} && find . -type f -exec shasum -a 256 {} +)`,
+	);
+
+	if (code !== 0) {
+		throw new Error(
+			`Could not compute the checksums of the files in "${directory}": ${stderr.trim()}`,
+		);
+	}
+
+	const checksums = new Map<string, string>();
+
+	for (const line of stdout.split('\n')) {
+		const match = /^\\?([0-9a-f]{64}) [ *]\.\/(.+)$/.exec(line);
+		if (match) {
+			checksums.set(match[2], match[1]);
+		}
+	}
+
+	return checksums;
+}
+
+/**
+ * Describe the binary properties of an item as the source of a sync. Binary
+ * data n8n stores outside of the item is hashed and uploaded from a stream,
+ * so large files are never loaded into memory as a whole.
+ */
+export async function collectBinarySyncFiles(
+	this: IExecuteFunctions,
+	itemIndex: number,
+	binaryPropertyNames: string[],
+	relativePathFrom: 'fileName' | 'propertyName',
+): Promise<SyncSourceFile[]> {
+	const files: SyncSourceFile[] = [];
+
+	for (const binaryPropertyName of binaryPropertyNames) {
+		const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+		const relativePath = getBinaryRelativePath(binaryData, binaryPropertyName, relativePathFrom);
+
+		if (!relativePath || relativePath.split('/').includes('..')) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Invalid relative path "${relativePath}" for binary field "${binaryPropertyName}"`,
+				{
+					itemIndex,
+				},
+			);
+		}
+
+		if (binaryData.id) {
+			const { id } = binaryData;
+			const { fileSize } = await this.helpers.getBinaryMetadata(id);
+			let checksum: Promise<string> | undefined;
+
+			files.push({
+				relativePath,
+				size: fileSize,
+				checksum: async () =>
+					await (checksum ??= hashStream(await this.helpers.getBinaryStream(id))),
+				open: async () => await this.helpers.getBinaryStream(id),
+			});
+			continue;
+		}
+
+		const data = await this.helpers.getBinaryDataBuffer(itemIndex, binaryPropertyName);
+
+		files.push({
+			relativePath,
+			size: data.length,
+			checksum: async () => createHash('sha256').update(data).digest('hex'),
+			open: async () => data,
+		});
+	}
+
+	return files;
+}
+
+/**
+ * Describe the files below a remote directory as the source of a sync. Their
+ * checksums are computed with a single command once the first one is needed.
+ */
+export async function collectRemoteSyncFiles(
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	directory: string,
+	exclude: string[] = [],
+): Promise<SyncSourceFile[]> {
+	const files = await collectRemoteFiles(sftp, directory, { exclude });
+	let checksums: Promise<Map<string, string>> | undefined;
+
+	return files.map((file) => ({
+		relativePath: file.relativePath,
+		size: file.size,
+		mtime: file.mtime,
+		checksum: async () =>
+			(await (checksums ??= getRemoteChecksums(ssh, directory))).get(file.relativePath) ?? '',
+		open: async () => sftp.createReadStream(file.path),
+	}));
+}
+
+/**
+ * Bring a remote directory in line with a set of source files the way rsync
+ * does. Files are compared by size and modification time or by checksum, and
+ * only new and changed ones get uploaded. The modification time of the source
+ * is kept, so the next comparison by time finds them unchanged.
+ */
+export async function syncDirectory(
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	sourceFiles: SyncSourceFile[],
+	targetDirectory: string,
+	options: SyncOptions = {},
+): Promise<SyncResult> {
+	const { compareBy = 'checksum', exclude = [] } = options;
+	const targetFiles = (await pathExists(sftp, targetDirectory))
+		? await collectRemoteFiles(sftp, targetDirectory, { exclude })
+		: [];
+	const targetByPath = new Map(targetFiles.map((file) => [file.relativePath, file]));
+	let targetChecksums: Promise<Map<string, string>> | undefined;
+
+	const result: SyncResult = { changes: [], created: 0, updated: 0, deleted: 0, unchanged: 0 };
+	const uploads: SyncSourceFile[] = [];
+	const sourcePaths = new Set<string>();
+
+	for (const file of sourceFiles) {
+		if (exclude.length && matchesGlobs(file.relativePath, exclude)) continue;
+		sourcePaths.add(file.relativePath);
+
+		const existing = targetByPath.get(file.relativePath);
+		let changed = !existing || existing.size !== file.size;
+
+		// Input binaries have no modification time, so they are compared by
+		// checksum either way
+		if (!changed && compareBy === 'sizeAndMtime' && file.mtime !== undefined) {
+			changed = file.mtime !== existing?.mtime;
+		} else if (!changed) {
+			targetChecksums ??= getRemoteChecksums(ssh, targetDirectory);
+			changed = (await file.checksum()) !== (await targetChecksums).get(file.relativePath);
+		}
+
+		if (!changed) {
+			result.unchanged++;
+			continue;
+		}
+
+		uploads.push(file);
+		result.changes.push({
+			action: existing ? 'update' : 'create',
+			relativePath: file.relativePath,
+			remotePath: joinRemotePath(targetDirectory, file.relativePath),
+			size: file.size,
+		});
+		result[existing ? 'updated' : 'created']++;
+	}
+
+	if (options.deleteExtraneous) {
+		for (const file of targetFiles) {
+			if (sourcePaths.has(file.relativePath)) continue;
+
+			result.changes.push({
+				action: 'delete',
+				relativePath: file.relativePath,
+				remotePath: file.path,
+				size: file.size,
+			});
+			result.deleted++;
+		}
+	}
+
+	if (options.dryRun) {
+		return result;
+	}
+
+	const createdDirectories = new Set<string>();
+
+	for (const file of uploads) {
+		const remotePath = joinRemotePath(targetDirectory, file.relativePath);
+		const remoteDirectory = remotePath.slice(0, remotePath.lastIndexOf('/'));
+
+		if (remoteDirectory && !createdDirectories.has(remoteDirectory)) {
+			await makeDirectory(sftp, remoteDirectory, true);
+			createdDirectories.add(remoteDirectory);
+		}
+
+		await uploadRemoteFile(ssh, sftp, await file.open(), remotePath, options.transferOptions);
+
+		if (file.mtime !== undefined) {
+			const { mtime } = file;
+			await new Promise<void>((resolve, reject) => {
+				sftp.utimes(remotePath, mtime, mtime, (error) => (error ? reject(error) : resolve()));
+			});
+		}
+	}
+
+	for (const change of result.changes) {
+		if (change.action === 'delete') {
+			await removePath(sftp, change.remotePath, false);
+		}
+	}
+
+	return result;
+}
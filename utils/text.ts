@@ -0,0 +1,180 @@
+import type { IDataObject } from 'n8n-workflow';
+import type { SFTPWrapper } from 'ssh2';
+import { StringDecoder } from 'string_decoder';
+
+import { collectRemoteFiles, readRemoteFile } from './transfer';
+
+export interface ReadTextOptions {
+	/** First line to return, counting from 1 */
+	startLine?: number;
+	/** Last line to return, 0 for the end of the file */
+	endLine?: number;
+	/** Stop after this many bytes of returned lines, 0 for no limit */
+	maxBytes?: number;
+}
+
+export interface TextFileContent {
+	content: string;
+	startLine: number;
+	endLine: number;
+	truncated: boolean;
+}
+
+export interface SearchOptions {
+	namePattern?: string;
+	contentPattern?: RegExp;
+	maxResults?: number;
+	maxFilesScanned?: number;
+	/** Larger files are not searched for the content pattern */
+	maxFileSize?: number;
+}
+
+// Longest part of a matching line returned as the snippet
+const MAX_SNIPPET_LENGTH = 200;
+
+function isBinary(data: Buffer): boolean {
+	return data.subarray(0, 8000).includes(0);
+}
+
+/**
+ * Read a range of lines of a remote text file. The file is streamed and the
+ * read stops as soon as the range or the byte limit is reached, so reading
+ * the start of a huge file stays cheap.
+ */
+export async function readRemoteText(
+	sftp: SFTPWrapper,
+	path: string,
+	options: ReadTextOptions = {},
+): Promise<TextFileContent> {
+	const { startLine = 1, endLine = 0, maxBytes = 0 } = options;
+
+	return await new Promise((resolve, reject) => {
+		const stream = sftp.createReadStream(path);
+		// Characters split between two chunks are held back until they are complete
+		const decoder = new StringDecoder('utf8');
+		const lines: string[] = [];
+		let lineNumber = 0;
+		let bytes = 0;
+		let rest = '';
+		let firstChunk = true;
+		let done = false;
+
+		const finish = (truncated: boolean) => {
+			if (done) return;
+			done = true;
+			stream.destroy();
+			resolve({
+				content: lines.join('\n'),
+				startLine,
+				endLine: startLine + lines.length - 1,
+				truncated,
+			});
+		};
+
+		// Returns false once no more lines are wanted
+		const addLine = (line: string) => {
+			lineNumber++;
+			if (lineNumber < startLine) return true;
+			if (endLine && lineNumber > endLine) return false;
+
+			bytes += Buffer.byteLength(line) + 1;
+			if (maxBytes && bytes > maxBytes) {
+				finish(true);
+				return false;
+			}
+
+			lines.push(line);
+			return true;
+		};
+
+		stream.on('data', (chunk: Buffer) => {
+			if (done) return;
+
+			if (firstChunk && isBinary(chunk)) {
+				done = true;
+				stream.destroy();
+				reject(new Error(`"${path}" is a binary file and cannot be read as text`));
+				return;
+			}
+			firstChunk = false;
+
+			const parts = (rest + decoder.write(chunk)).split('\n');
+			rest = parts.pop() as string;
+
+			for (const part of parts) {
+				// The byte limit finishes with the truncated flag itself
+				if (!addLine(part.replace(/\r$/, ''))) {
+					finish(false);
+					return;
+				}
+			}
+		});
+		stream.on('error', (error: Error) => {
+			if (!done) {
+				done = true;
+				reject(error);
+			}
+		});
+		stream.on('end', () => {
+			rest += decoder.end();
+			if (rest) addLine(rest.replace(/\r$/, ''));
+			finish(false);
+		});
+	});
+}
+
+/**
+ * Search the files below a remote directory whose names match a glob. With a
+ * content pattern every matching line is returned with its number and a
+ * snippet, without one the matching files themselves are returned. The walk
+ * stops at the scan limit and the result is marked as truncated then.
+ */
+export async function searchRemoteFiles(
+	sftp: SFTPWrapper,
+	root: string,
+	options: SearchOptions = {},
+): Promise<{ matches: IDataObject[]; filesScanned: number; truncated: boolean }> {
+	const { contentPattern, maxResults = 100, maxFileSize = 1024 * 1024 } = options;
+	const { maxFilesScanned } = options;
+	const found = await collectRemoteFiles(sftp, root, {
+		include: options.namePattern ? [options.namePattern] : [],
+		maxFiles: maxFilesScanned,
+		stopAtMaxFiles: true,
+	});
+	const walkTruncated = !!maxFilesScanned && found.length > maxFilesScanned;
+	const files = walkTruncated ? found.slice(0, maxFilesScanned) : found;
+	const matches: IDataObject[] = [];
+	let filesScanned = 0;
+
+	for (const file of files) {
+		filesScanned++;
+
+		if (!contentPattern) {
+			matches.push({ path: file.path, size: file.size });
+		} else if (file.size <= maxFileSize) {
+			const data = await readRemoteFile(sftp, file.path);
+			if (isBinary(data)) continue;
+
+			const lines = data.toString().split('\n');
+			for (let index = 0; index < lines.length && matches.length <= maxResults; index++) {
+				const line = lines[index].replace(/\r$/, '');
+				contentPattern.lastIndex = 0;
+
+				if (contentPattern.test(line)) {
+					matches.push({
+						path: file.path,
+						line: index + 1,
+						text:
+							line.length > MAX_SNIPPET_LENGTH ? `${line.slice(0, MAX_SNIPPET_LENGTH)}...` : line,
+					});
+				}
+			}
+		}
+
+		if (matches.length > maxResults) {
+			return { matches: matches.slice(0, maxResults), filesScanned, truncated: true };
+		}
+	}
+
+	return { matches, filesScanned, truncated: walkTruncated };
+}
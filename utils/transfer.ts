@@ -0,0 +1,676 @@
+import { createHash } from 'crypto';
+import { createReadStream, createWriteStream } from 'fs';
+import { stat as statLocalFile, unlink } from 'fs/promises';
+import type { IBinaryData, IDataObject, IExecuteFunctions } from 'n8n-workflow';
+import { BINARY_ENCODING, NodeOperationError } from 'n8n-workflow';
+import type { NodeSSH } from 'node-ssh';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SFTPWrapper } from 'ssh2';
+import { pipeline, Readable, Transform } from 'stream';
+import { pipeline as pipelineAsync } from 'stream/promises';
+import { file as tmpFile } from 'tmp-promise';
+import { gzipSync } from 'zlib';
+
+import { SshError } from './errors';
+import {
+	getFileType,
+	joinRemotePath,
+	makeDirectory,
+	readDirectory,
+	removePath,
+	renamePath,
+	stat,
+} from './sftp';
+import { shellQuote } from './utilities';
+
+export interface RemoteFile {
+	path: string;
+	relativePath: string;
+	size: number;
+	mode: number;
+	mtime: number;
+}
+
+export interface DirectoryWalkOptions {
+	include?: string[];
+	exclude?: string[];
+	maxFiles?: number;
+	/** Stops the walk one file over the limit instead of failing, so callers can tell it was cut short */
+	stopAtMaxFiles?: boolean;
+	maxTotalSize?: number;
+}
+
+export type ChecksumAlgorithm = 'sha256' | 'md5';
+
+export interface TransferOptions {
+	/** Buffers the data in a local temporary file instead of streaming it */
+	useTempFile?: boolean;
+	/** Compares a checksum of the transferred data with one computed on the server */
+	checksum?: ChecksumAlgorithm;
+	/** Continues from the size of a partial file an interrupted transfer left behind */
+	resume?: boolean;
+	/** Uploads to a partial file next to the target and renames it into place when complete */
+	atomic?: boolean;
+	/** Identifies the server, so local partial downloads of different servers are kept apart */
+	resumeKey?: string;
+	/** Called with the bytes transferred so far and the total size, when it is known */
+	onProgress?: (bytes: number, total?: number) => void;
+}
+
+export interface TransferResult {
+	/** Size of the whole file */
+	size: number;
+	/** Bytes sent or received by this transfer, less than the size when it was resumed */
+	bytesTransferred: number;
+	/** Size of the partial file the transfer continued from */
+	resumedFrom?: number;
+	checksum?: string;
+	checksumAlgorithm?: ChecksumAlgorithm;
+}
+
+export interface TarEntry {
+	name: string;
+	data: Buffer;
+	mode?: number;
+	mtime?: number;
+}
+
+/**
+ * Convert a glob pattern to a regular expression. `*` and `?` do not match
+ * slashes, `**` matches any number of directories and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+	let source = '';
+	let braceDepth = 0;
+
+	for (let i = 0; i < pattern.length; i++) {
+		const char = pattern[i];
+
+		if (char === '*' && pattern[i + 1] === '*') {
+			// "**/" also matches no directory at all
+			if (pattern[i + 2] === '/') {
+				source += '(?:.*/)?';
+				i += 2;
+			} else {
+				source += '.*';
+				i += 1;
+			}
+		} else if (char === '*') {
+			source += '[^/]*';
+		} else if (char === '?') {
+			source += '[^/]';
+		} else if (char === '{') {
+			source += '(?:';
+			braceDepth++;
+		} else if (char === '}' && braceDepth > 0) {
+			source += ')';
+			braceDepth--;
+		} else if (char === ',' && braceDepth > 0) {
+			source += '|';
+		} else {
+			source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+		}
+	}
+
+	return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a relative path against glob patterns. Patterns without a slash are
+ * matched against the file name only, like in `.gitignore`.
+ */
+export function matchesGlobs(relativePath: string, patterns: string[]): boolean {
+	const name = relativePath.split('/').pop() as string;
+
+	return patterns.some((pattern) =>
+		globToRegExp(pattern).test(pattern.includes('/') ? relativePath : name),
+	);
+}
+
+/**
+ * Walk a remote directory and return the regular files below it that pass the
+ * include and exclude filters
+ */
+export async function collectRemoteFiles(
+	sftp: SFTPWrapper,
+	root: string,
+	options: DirectoryWalkOptions = {},
+): Promise<RemoteFile[]> {
+	const files: RemoteFile[] = [];
+	const include = options.include ?? [];
+	const exclude = options.exclude ?? [];
+	let totalSize = 0;
+	let stopped = false;
+
+	const walk = async (directory: string, prefix: string) => {
+		const list = await readDirectory(sftp, directory);
+		list.sort((a, b) => a.filename.localeCompare(b.filename));
+
+		for (const { filename, attrs } of list) {
+			if (filename === '.' || filename === '..') continue;
+
+			const path = joinRemotePath(directory, filename);
+			const relativePath = prefix ? `${prefix}/${filename}` : filename;
+			const type = getFileType(attrs.mode);
+
+			if (type === 'directory') {
+				await walk(path, relativePath);
+				if (stopped) return;
+				continue;
+			}
+
+			if (type !== 'file') continue;
+			if (include.length && !matchesGlobs(relativePath, include)) continue;
+			if (exclude.length && matchesGlobs(relativePath, exclude)) continue;
+
+			files.push({ path, relativePath, size: attrs.size, mode: attrs.mode, mtime: attrs.mtime });
+			totalSize += attrs.size;
+
+			if (options.maxFiles && files.length > options.maxFiles) {
+				if (options.stopAtMaxFiles) {
+					stopped = true;
+					return;
+				}
+
+				throw new Error(
+					`"${root}" contains more than ${options.maxFiles} matching files. Narrow the filters or raise the file limit`,
+				);
+			}
+
+			if (options.maxTotalSize && totalSize > options.maxTotalSize) {
+				throw new Error(
+					`The matching files in "${root}" exceed the size limit of ${options.maxTotalSize} bytes. Narrow the filters or raise the size limit`,
+				);
+			}
+		}
+	};
+
+	await walk(root, '');
+
+	return files;
+}
+
+/**
+ * Read a whole remote file into memory
+ */
+export async function readRemoteFile(sftp: SFTPWrapper, path: string): Promise<Buffer> {
+	return await new Promise((resolve, reject) => {
+		const chunks: Buffer[] = [];
+		const stream = sftp.createReadStream(path);
+
+		stream.on('data', (chunk: Buffer) => chunks.push(chunk));
+		stream.on('error', reject);
+		stream.on('end', () => resolve(Buffer.concat(chunks)));
+	});
+}
+
+function writeTarField(header: Buffer, value: string, offset: number, length: number) {
+	header.write(value, offset, Math.min(Buffer.byteLength(value), length), 'utf8');
+}
+
+function writeTarNumber(header: Buffer, value: number, offset: number, length: number) {
+	writeTarField(header, `${value.toString(8).padStart(length - 1, '0')}\0`, offset, length);
+}
+
+function createTarHeader(entry: TarEntry): Buffer {
+	const header = Buffer.alloc(512);
+	let name = entry.name;
+	let prefix = '';
+
+	// ustar only has 100 bytes for the name, longer paths are split into a
+	// prefix of up to 155 bytes at a directory boundary
+	if (Buffer.byteLength(name) > 100) {
+		const splitAt = name.lastIndexOf('/', 155);
+		if (splitAt <= 0 || Buffer.byteLength(name.slice(splitAt + 1)) > 100) {
+			throw new Error(`The path "${entry.name}" is too long to be stored in a tar archive`);
+		}
+		prefix = name.slice(0, splitAt);
+		name = name.slice(splitAt + 1);
+	}
+
+	writeTarField(header, name, 0, 100);
+	writeTarNumber(header, (entry.mode ?? 0o644) & 0o7777, 100, 8);
+	writeTarNumber(header, 0, 108, 8);
+	writeTarNumber(header, 0, 116, 8);
+	writeTarNumber(header, entry.data.length, 124, 12);
+	writeTarNumber(header, Math.floor(entry.mtime ?? Date.now() / 1000), 136, 12);
+	writeTarField(header, '        ', 148, 8);
+	writeTarField(header, '0', 156, 1);
+	writeTarField(header, 'ustar\u000000', 257, 8);
+	writeTarField(header, prefix, 345, 155);
+
+	let checksum = 0;
+	for (const byte of header) {
+		checksum += byte;
+	}
+	writeTarField(header, `${checksum.toString(8).padStart(6, '0')}\0 `, 148, 8);
+
+	return header;
+}
+
+/**
+ * Pack files into a gzip compressed tar archive
+ */
+export function createTarGz(entries: TarEntry[]): Buffer {
+	const blocks: Buffer[] = [];
+
+	for (const entry of entries) {
+		blocks.push(createTarHeader(entry), entry.data);
+
+		const padding = (512 - (entry.data.length % 512)) % 512;
+		if (padding) {
+			blocks.push(Buffer.alloc(padding));
+		}
+	}
+
+	// An archive ends with two empty blocks
+	blocks.push(Buffer.alloc(1024));
+
+	return gzipSync(Buffer.concat(blocks));
+}
+
+/**
+ * Return the path below the target directory a binary property is uploaded to
+ */
+export function getBinaryRelativePath(
+	binaryData: IBinaryData,
+	binaryPropertyName: string,
+	relativePathFrom: 'fileName' | 'propertyName',
+): string {
+	return (relativePathFrom === 'propertyName' ? binaryPropertyName : binaryData.fileName ?? '')
+		.replace(/\\/g, '/')
+		.replace(/^\/+/, '');
+}
+
+// Shortest time between two progress messages of a transfer
+const PROGRESS_INTERVAL = 1000;
+
+// Commands that print the checksum of a file, with the BSD tools as fallback
+const CHECKSUM_COMMANDS: Record<ChecksumAlgorithm, (path: string) => string> = {
+	sha256: (path) => `sha256sum -- ${path} 2>/dev/null || shasum -a 256 -- ${path}`,
+	md5: (path) => `md5sum -- ${path} 2>/dev/null || md5 -q ${path}`,
+};
+
+function observeChunks(onChunk: (chunk: Buffer) => void): Transform {
+	return new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			onChunk(chunk);
+			callback(null, chunk);
+		},
+	});
+}
+
+// Drops the start of the data that a resumed transfer already sent
+function skipBytes(count: number): Transform {
+	let skipped = 0;
+
+	return new Transform({
+		transform(chunk: Buffer, _encoding, callback) {
+			const skip = Math.min(count - skipped, chunk.length);
+			skipped += skip;
+
+			if (skip < chunk.length) {
+				this.push(chunk.subarray(skip));
+			}
+			callback();
+		},
+	});
+}
+
+async function hashLocalFile(path: string, algorithm: ChecksumAlgorithm): Promise<string> {
+	const hash = createHash(algorithm);
+
+	for await (const chunk of createReadStream(path)) {
+		hash.update(chunk as Buffer);
+	}
+
+	return hash.digest('hex');
+}
+
+/**
+ * Return the name an atomic upload is written to before it gets renamed into place
+ */
+export function getPartialPath(remotePath: string): string {
+	const index = remotePath.lastIndexOf('/') + 1;
+	return `${remotePath.slice(0, index)}.${remotePath.slice(index)}.part`;
+}
+
+// Partial downloads are kept in the temporary directory under a name derived
+// from the server and the path, so a later attempt finds them again
+function getLocalPartialPath(remotePath: string, resumeKey = ''): string {
+	const id = createHash('sha256').update(`${resumeKey}:${remotePath}`).digest('hex');
+	return join(tmpdir(), `n8n-ssh-${id.slice(0, 32)}.part`);
+}
+
+/**
+ * Compute the checksum of a remote file on the server itself, with the
+ * coreutils tools or their BSD counterparts
+ */
+export async function getRemoteChecksum(
+	ssh: NodeSSH,
+	path: string,
+	algorithm: ChecksumAlgorithm,
+): Promise<string> {
+	const { stdout, stderr } = await ssh.execCommand(CHECKSUM_COMMANDS[algorithm](shellQuote(path)));
+	const checksum = /^[0-9a-f]+/i.exec(stdout.trim())?.[0];
+
+	if (!checksum) {
+		throw new Error(
+			`Could not compute the ${algorithm} checksum of "${path}" on the server: ${
+				stderr.trim() || 'no checksum tool found'
+			}`,
+		);
+	}
+
+	return checksum.toLowerCase();
+}
+
+async function verifyRemoteChecksum(
+	ssh: NodeSSH,
+	path: string,
+	algorithm: ChecksumAlgorithm,
+	expected: string,
+): Promise<void> {
+	const actual = await getRemoteChecksum(ssh, path, algorithm);
+
+	if (actual !== expected) {
+		throw new SshError(
+			`The ${algorithm} checksum of "${path}" on the server (${actual}) does not match the transferred data (${expected})`,
+			'CHECKSUM_MISMATCH',
+		);
+	}
+}
+
+/**
+ * Create a progress callback that reports the bytes of a transfer to the
+ * browser console of manual executions, at most once a second
+ */
+export function reportTransferProgress(
+	this: IExecuteFunctions,
+	label: string,
+): NonNullable<TransferOptions['onProgress']> {
+	let lastReport = 0;
+
+	return (bytes, total) => {
+		const now = Date.now();
+		if (now - lastReport < PROGRESS_INTERVAL && bytes !== total) return;
+
+		lastReport = now;
+		this.sendMessageToUI?.(
+			`${label}: ${bytes}${total === undefined ? '' : ` of ${total}`} bytes transferred`,
+		);
+	};
+}
+
+/**
+ * Upload data to a remote file. A stream is piped straight into an SFTP write
+ * stream, so large files are neither held in memory nor written to the local
+ * disk, unless a temporary file is asked for.
+ *
+ * A resumed upload skips as many bytes as the remote file, or the partial file
+ * of an atomic upload, already has and appends the rest. An atomic upload is
+ * written next to the target and only renamed into place once it is complete
+ * and its checksum, when one is asked for, matches the one of the server.
+ */
+export async function uploadRemoteFile(
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	data: Buffer | Readable,
+	remotePath: string,
+	options: TransferOptions = {},
+): Promise<TransferResult> {
+	const { onProgress, checksum } = options;
+	const target = options.atomic ? getPartialPath(remotePath) : remotePath;
+	const hash = checksum ? createHash(checksum) : undefined;
+	let size = Buffer.isBuffer(data) ? data.length : undefined;
+	let offset = 0;
+	let bytesRead = 0;
+	let bytesTransferred = 0;
+
+	if (options.resume) {
+		offset = (await stat(sftp, target).catch(() => undefined))?.size ?? 0;
+	}
+
+	const binaryFile = options.useTempFile ? await tmpFile({ prefix: 'n8n-ssh-' }) : undefined;
+
+	try {
+		let source = Buffer.isBuffer(data) ? Readable.from([data], { objectMode: false }) : data;
+
+		if (binaryFile) {
+			await pipelineAsync(
+				source,
+				observeChunks((chunk) => hash?.update(chunk)),
+				createWriteStream(binaryFile.path),
+			);
+			size = (await statLocalFile(binaryFile.path)).size;
+			source = createReadStream(binaryFile.path);
+		}
+
+		// A partial file larger than the data cannot be a part of it
+		if (size !== undefined && offset > size) {
+			offset = 0;
+		}
+
+		if (binaryFile && !offset) {
+			await ssh.putFile(binaryFile.path, target, sftp, {
+				step: (transferred) => onProgress?.(transferred, size),
+			});
+			bytesRead = bytesTransferred = size as number;
+		} else {
+			await pipelineAsync(
+				source,
+				observeChunks((chunk) => {
+					bytesRead += chunk.length;
+					if (!binaryFile) hash?.update(chunk);
+				}),
+				skipBytes(offset),
+				observeChunks((chunk) => {
+					bytesTransferred += chunk.length;
+					onProgress?.(offset + bytesTransferred, size);
+				}),
+				sftp.createWriteStream(target, offset ? { flags: 'r+', start: offset } : {}),
+			);
+		}
+	} finally {
+		await binaryFile?.cleanup();
+	}
+
+	if (bytesRead < offset) {
+		throw new Error(
+			`The partial file "${target}" is larger than the uploaded data. Remove it or upload without resuming`,
+		);
+	}
+
+	const result: TransferResult = {
+		size: bytesRead,
+		bytesTransferred,
+		...(offset ? { resumedFrom: offset } : {}),
+	};
+
+	if (hash && checksum) {
+		result.checksum = hash.digest('hex');
+		result.checksumAlgorithm = checksum;
+
+		try {
+			await verifyRemoteChecksum(ssh, target, checksum, result.checksum);
+		} catch (error) {
+			// A broken partial file must not be resumed from
+			if (options.atomic) {
+				await removePath(sftp, target, false).catch(() => undefined);
+			}
+			throw error;
+		}
+	}
+
+	if (options.atomic) {
+		await renamePath(sftp, target, remotePath, true);
+	}
+
+	return result;
+}
+
+/**
+ * Download a remote file into n8n binary data. The SFTP read stream is handed
+ * to the binary data store as it is, unless a temporary file is asked for.
+ * Resumed downloads go through a local partial file that is kept when the
+ * transfer fails, so the next attempt continues where this one stopped.
+ */
+export async function downloadRemoteFile(
+	this: IExecuteFunctions,
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	remotePath: string,
+	fileName: string,
+	options: TransferOptions = {},
+): Promise<TransferResult & { binaryData: IBinaryData }> {
+	const { onProgress, checksum } = options;
+
+	// Fails early for missing files and gives the total for the progress
+	const { size } = await stat(sftp, remotePath);
+
+	if (!options.useTempFile && !options.resume) {
+		const hash = checksum ? createHash(checksum) : undefined;
+		let bytesTransferred = 0;
+
+		// Errors of the read stream are passed on to the last stream
+		const stream = pipeline(
+			sftp.createReadStream(remotePath),
+			observeChunks((chunk) => {
+				bytesTransferred += chunk.length;
+				hash?.update(chunk);
+				onProgress?.(bytesTransferred, size);
+			}),
+			() => undefined,
+		);
+		const binaryData = await this.helpers.prepareBinaryData(stream, fileName);
+		const result: TransferResult = { size: bytesTransferred, bytesTransferred };
+
+		if (hash && checksum) {
+			result.checksum = hash.digest('hex');
+			result.checksumAlgorithm = checksum;
+			await verifyRemoteChecksum(ssh, remotePath, checksum, result.checksum);
+		}
+
+		return { ...result, binaryData };
+	}
+
+	const binaryFile = options.resume ? undefined : await tmpFile({ prefix: 'n8n-ssh-' });
+	const localPath = binaryFile?.path ?? getLocalPartialPath(remotePath, options.resumeKey);
+	let offset = 0;
+	let bytesTransferred = 0;
+
+	try {
+		if (binaryFile) {
+			await ssh.getFile(localPath, remotePath, sftp, {
+				step: (transferred) => onProgress?.(transferred, size),
+			});
+			bytesTransferred = size;
+		} else {
+			offset = (await statLocalFile(localPath).catch(() => undefined))?.size ?? 0;
+
+			// A partial file larger than the remote file is left from another version of it
+			if (offset > size) {
+				offset = 0;
+			}
+
+			await pipelineAsync(
+				sftp.createReadStream(remotePath, { start: offset }),
+				observeChunks((chunk) => {
+					bytesTransferred += chunk.length;
+					onProgress?.(offset + bytesTransferred, size);
+				}),
+				createWriteStream(localPath, { flags: offset ? 'a' : 'w' }),
+			);
+		}
+
+		const result: TransferResult = {
+			size: offset + bytesTransferred,
+			bytesTransferred,
+			...(offset ? { resumedFrom: offset } : {}),
+		};
+
+		if (checksum) {
+			result.checksum = await hashLocalFile(localPath, checksum);
+			result.checksumAlgorithm = checksum;
+
+			try {
+				await verifyRemoteChecksum(ssh, remotePath, checksum, result.checksum);
+			} catch (error) {
+				// A broken partial file must not be resumed from
+				await unlink(localPath).catch(() => undefined);
+				throw error;
+			}
+		}
+
+		const binaryData = await this.nodeHelpers.copyBinaryFile(localPath, fileName);
+
+		if (!binaryFile) {
+			await unlink(localPath).catch(() => undefined);
+		}
+
+		return { ...result, binaryData };
+	} finally {
+		await binaryFile?.cleanup();
+	}
+}
+
+/**
+ * Upload several binary properties of an item below a remote directory. The
+ * relative path of every file is taken from its file name or from the name of
+ * its binary property, sub directories get created as needed.
+ */
+export async function uploadBinaryTree(
+	this: IExecuteFunctions,
+	ssh: NodeSSH,
+	sftp: SFTPWrapper,
+	itemIndex: number,
+	binaryPropertyNames: string[],
+	targetDirectory: string,
+	relativePathFrom: 'fileName' | 'propertyName',
+	transferOptions: TransferOptions = {},
+): Promise<IDataObject[]> {
+	const uploaded: IDataObject[] = [];
+	const createdDirectories = new Set<string>();
+
+	for (const binaryPropertyName of binaryPropertyNames) {
+		const binaryData = this.helpers.assertBinaryData(itemIndex, binaryPropertyName);
+		const relativePath = getBinaryRelativePath(binaryData, binaryPropertyName, relativePathFrom);
+
+		if (!relativePath || relativePath.split('/').includes('..')) {
+			throw new NodeOperationError(
+				this.getNode(),
+				`Invalid relative path "${relativePath}" for binary field "${binaryPropertyName}"`,
+				{
+					itemIndex,
+				},
+			);
+		}
+
+		const remotePath = joinRemotePath(targetDirectory, relativePath);
+		const remoteDirectory = remotePath.slice(0, remotePath.lastIndexOf('/'));
+
+		if (remoteDirectory && !createdDirectories.has(remoteDirectory)) {
+			await makeDirectory(sftp, remoteDirectory, true);
+			createdDirectories.add(remoteDirectory);
+		}
+
+		let uploadData: Buffer | Readable;
+		if (binaryData.id) {
+			uploadData = await this.helpers.getBinaryStream(binaryData.id);
+		} else {
+			uploadData = Buffer.from(binaryData.data, BINARY_ENCODING);
+		}
+
+		const result = await uploadRemoteFile(ssh, sftp, uploadData, remotePath, transferOptions);
+
+		uploaded.push({
+			binaryPropertyName,
+			relativePath,
+			remotePath,
+			...result,
+		});
+	}
+
+	return uploaded;
+}